@@ -10,18 +10,28 @@
 
 import XLSX from 'xlsx';
 import { Crawler } from "./crawler.js";
-import { Fetcher } from "./fetcher.js";
+import { createPageSource, FetchBackend, isFetchBackend, PageSource } from "./pageSource.js";
 import { ExportService } from "./services/exportService.js";
 import { EnhancedExcelExportService } from "./services/enhancedExcelService.js";
 import { parseUocHtml } from "./parsers/uocParser.js";
+import { parseMaxAge, SnapshotCache } from "./services/snapshotCache.js";
+import { configureSharedRateLimiter, parseRequestsPerMinute, RateLimiterOptions } from "./utils/rateLimiter.js";
+import { CircuitBreaker } from "./utils/circuitBreaker.js";
+import { isSkillSetCode } from "./parsers/componentUnits.js";
+import { SkillSetService } from "./services/skillSetService.js";
+import { hasUnitContent } from "./parsers/pageDetection.js";
+import { createScrapeResult, recordFailure, ScrapeResult, UnitError as ScrapeFailure } from "./models/scrapeResult.js";
 import { promises as fs } from "fs";
 import * as path from "path";
 import { Uoc } from "./models/uoc.js";
+import { siteBaseUrl, unitUrl } from "./siteUrls.js";
 
-// Cached Fetcher wrapper to avoid re-downloading
-class CachedFetcher extends Fetcher {
+// Cached page source wrapper to avoid re-downloading
+class CachedFetcher implements PageSource {
   private cache = new Map<string, string>();
 
+  constructor(private source: PageSource) {}
+
   setCache(url: string, html: string): void {
     this.cache.set(url, html);
   }
@@ -30,7 +40,11 @@ class CachedFetcher extends Fetcher {
     if (this.cache.has(url)) {
       return this.cache.get(url)!;
     }
-    return super.get(url);
+    return this.source.get(url);
+  }
+
+  async close(): Promise<void> {
+    await this.source.close();
   }
 }
 
@@ -40,8 +54,18 @@ export interface SyncConfig {
   outputExcel: string;
   dataDir: string;
   maxRetries?: number;
-  retryDelay?: number;
-  autoRetry?: boolean;
+  retryDelay?: number;         // Base backoff for in-run retries (ms)
+  autoRetry?: boolean;         // Retry transient failures within the run (default: true)
+  retriesPerRun?: number;      // In-run retries per unit (default: 2)
+  circuitBreakerThreshold?: number; // Consecutive failures that pause the run (default: 5)
+  fetchBackend?: FetchBackend; // "browser" (Puppeteer, default) or "http" (static HTML)
+  useCache?: boolean;          // Reuse page snapshots from <dataDir>/cache (default: true)
+  cacheMaxAgeMs?: number;      // Snapshot TTL (default: 24 hours)
+  rateLimit?: RateLimiterOptions; // Shared limiter settings (default: 60/min, burst 3, 3 concurrent)
+  pageSource?: PageSource;     // Custom page source, overrides fetchBackend
+  failOnDrift?: boolean;       // Fail the run when field coverage drops sharply (default: warn)
+  allowDegraded?: boolean;     // Overwrite stored units with records that lost fields
+  baseUrl?: string;            // Site to sync from (default: TGA_BASE_URL or https://training.gov.au)
 }
 
 export interface SyncResult {
@@ -50,11 +74,13 @@ export interface SyncResult {
   invalidCount: number;
   errorCount: number;
   retryCount: number;
+  changedCount?: number;  // Scraped units whose content changed (see change-report.md)
 }
 
 interface UnitError {
   code: string;
   error: string;
+  kind?: string;      // FetchErrorKind of the last failure
   attempts: number;
   lastAttempt: string;
 }
@@ -90,6 +116,9 @@ function isValidUnitCode(code: string): boolean {
   ];
   
   if (excludeList.includes(code.toUpperCase())) return false;
+
+  // Skill sets (e.g. BSBSS00094) have their own page type
+  if (isSkillSetCode(code)) return false;
   
   // Valid pattern: Letters followed by mix of letters/digits, must have 3+ digits
   // Can end with letter or digit (e.g., BSBWHS332X, RIIWHS202E, MARA022)
@@ -122,8 +151,8 @@ async function readUnitCodesFromExcel(filepath: string, columnName: string): Pro
           for (const match of matches) {
             const code = match[1];
             
-            // Apply validation filter
-            if (isValidUnitCode(code)) {
+            // Apply validation filter (skill set codes are expanded into their units later)
+            if (isValidUnitCode(code) || isSkillSetCode(code)) {
               unitCodes.push(code);
             }
           }
@@ -133,7 +162,9 @@ async function readUnitCodesFromExcel(filepath: string, columnName: string): Pro
   }
 
   const uniqueCodes = [...new Set(unitCodes)];
-  console.log(`   ✓ Extracted ${uniqueCodes.length} unique unit codes\n`);
+  const skillSetCount = uniqueCodes.filter(isSkillSetCode).length;
+  console.log(`   ✓ Extracted ${uniqueCodes.length - skillSetCount} unique unit codes` +
+    (skillSetCount > 0 ? ` and ${skillSetCount} skill set codes` : '') + '\n');
   return uniqueCodes;
 }
 
@@ -173,7 +204,8 @@ async function loadPreviousErrors(dataDir: string): Promise<Map<string, UnitErro
         errorMap.set(err.code, {
           code: err.code,
           error: err.error,
-          attempts: err.attempts || 1,
+          kind: err.kind,
+          attempts: err.attempts ?? 1,
           lastAttempt: err.lastAttempt || new Date().toISOString()
         });
       }
@@ -204,6 +236,7 @@ async function saveErrorLog(
     errorUnits: errorUnits.map(u => ({
       code: u.code,
       error: u.error,
+      kind: u.kind,
       attempts: u.attempts,
       lastAttempt: u.lastAttempt
     }))
@@ -221,11 +254,52 @@ export async function syncUnits(config: SyncConfig): Promise<SyncResult> {
   const maxRetries = config.maxRetries || 3;
   const retryDelay = config.retryDelay || 5000;
   const autoRetry = config.autoRetry !== false;
+  const baseUrl = config.baseUrl ?? siteBaseUrl();
 
   console.log('📖 Reading unit codes from Excel...');
-  const requestedCodes = await readUnitCodesFromExcel(config.inputExcel, config.inputColumn);
+  const inputCodes = await readUnitCodesFromExcel(config.inputExcel, config.inputColumn);
+  const skillSetCodes = inputCodes.filter(isSkillSetCode);
+  const requestedCodes = inputCodes.filter(code => !isSkillSetCode(code));
   console.log(`✅ Found ${requestedCodes.length} unit codes\n`);
 
+  // Every fetch in this run (skill sets, validation and crawl) goes through one limiter
+  configureSharedRateLimiter({
+    requestsPerMinute: 60,
+    burst: 3,
+    maxConcurrency: 3,
+    ...config.rateLimit
+  });
+
+  // Pauses the whole run when the site looks down, then probes before resuming
+  const circuitBreaker = new CircuitBreaker({
+    failureThreshold: config.circuitBreakerThreshold ?? 5,
+    cooldownMs: 60000
+  });
+
+  const fetcher = new CachedFetcher(config.pageSource ?? createPageSource({
+    backend: config.fetchBackend,
+    retries: autoRetry ? config.retriesPerRun ?? 2 : 0,
+    retryDelayMs: retryDelay,
+    circuitBreaker,
+    // --no-cache still refreshes snapshots; it just never treats one as fresh
+    cache: new SnapshotCache(config.dataDir, {
+      maxAgeMs: config.useCache === false ? 0 : config.cacheMaxAgeMs
+    }),
+    headless: true,
+    timeout: 30000
+  }));
+
+  // Skill sets in the input expand to their member units
+  if (skillSetCodes.length > 0) {
+    console.log(`🧩 Resolving ${skillSetCodes.length} skill set(s)...`);
+    const resolution = await new SkillSetService(fetcher, config.dataDir, baseUrl).resolve(skillSetCodes);
+    const memberCodes = resolution.unitCodes.filter(code => !requestedCodes.includes(code));
+    requestedCodes.push(...memberCodes);
+    console.log(`✅ Added ${memberCodes.length} units from ${resolution.skillSets.length} skill set(s)`);
+    resolution.failed.forEach(({ code, error }) => console.log(`   ⚠️  ${code}: ${error}`));
+    console.log('');
+  }
+
   const outputExcelPath = path.join(config.dataDir, config.outputExcel);
   const existingUnits = await getExistingUnits(outputExcelPath);
   
@@ -273,6 +347,7 @@ export async function syncUnits(config: SyncConfig): Promise<SyncResult> {
       console.log('⚠️  Could not rebuild Excel:', (e as any)?.message || e);
     }
     console.log('');
+    await fetcher.close();
     return {
       success: true,
       validCount: existingUnits.size,
@@ -288,33 +363,48 @@ export async function syncUnits(config: SyncConfig): Promise<SyncResult> {
   const invalidUnits: { code: string; reason: string }[] = [];
   const errorUnits: Map<string, UnitError> = new Map();
 
-  const fetcher = new CachedFetcher({
-    minDelayMs: 1000,  // Reduced from 3000ms - faster!
-    headless: true,
-    timeout: 30000
-  });
+  const exporter = new ExportService(config.dataDir, { allowDegraded: config.allowDegraded });
 
-  const exporter = new ExportService(config.dataDir);
+  const scrapeResult: ScrapeResult = createScrapeResult();
 
-  // Categorize errors
-  const categorizeError = (code: string, error: any): void => {
-    const errorMsg = error.message || String(error);
+  // File a failure as invalid (not found) or as a retryable error
+  const fileFailure = (failure: ScrapeFailure): void => {
+    const { code } = failure;
     const existingError = previousErrors.get(code) || errorUnits.get(code);
-    const attempts = (existingError?.attempts || 0) + 1;
 
-    if (errorMsg.includes('404') || errorMsg.includes('not found')) {
-      invalidUnits.push({ code, reason: '404 - Unit not found' });
+    // A transient failure during a detected site outage is not the unit's fault,
+    // so it does not use up the unit's maxRetries budget. Neither does a scrape
+    // refused for losing fields: the stored record was kept and the unit is tried again
+    const transient = ['timeout', 'rate-limited', 'network'].includes(failure.kind) ||
+      (failure.kind === 'http' && (failure.status ?? 0) >= 500);
+    const duringOutage = transient && circuitBreaker.wasOpenAt(Date.parse(failure.timestamp));
+    const counted = !duringOutage && failure.kind !== 'degraded';
+    const attempts = (existingError?.attempts || 0) + (counted ? 1 : 0);
+
+    if (failure.kind === 'not-found') {
+      invalidUnits.push({
+        code,
+        reason: failure.status === 404 || failure.status === 410
+          ? `${failure.status} - Unit not found`
+          : 'Unit not found (site not-found page)'
+      });
     } else {
       errorUnits.set(code, {
         code,
-        error: errorMsg,
+        error: failure.error,
+        kind: failure.kind,
         attempts,
-        lastAttempt: new Date().toISOString()
+        lastAttempt: failure.timestamp
       });
     }
   };
 
-  // Validate units concurrently for speed (batch of 5 at a time)
+  // Categorize errors by the typed error the fetcher threw
+  const categorizeError = (code: string, url: string, error: any): void => {
+    fileFailure(recordFailure(scrapeResult, code, url, error));
+  };
+
+  // Validate units concurrently (batch of 5 at a time); the shared rate limiter paces the requests
   const CONCURRENT_BATCH = 5;
   let processed = 0;
   
@@ -322,35 +412,31 @@ export async function syncUnits(config: SyncConfig): Promise<SyncResult> {
     const batch = allUnitsToProcess.slice(i, i + CONCURRENT_BATCH);
     
     await Promise.all(batch.map(async (code) => {
-      const url = `https://training.gov.au/training/details/${code}/unitdetails`;
+      const url = unitUrl(code, baseUrl);
       const idx = ++processed;
       
       try {
         console.log(`[${idx}/${allUnitsToProcess.length}] 🔍 Checking: ${code}...`);
         const html = await fetcher.get(url);
         
-        if (html.includes('Unit of competency') || html.includes('Performance Criteria') || html.includes('Performance evidence')) {
+        if (hasUnitContent(html)) {
           validUnits.push(code);
           fetcher.setCache(url, html);
           console.log(`   ✅ Valid`);
-        } else if (html.includes('404') || html.includes('not found')) {
-          invalidUnits.push({ code, reason: 'Unit does not exist (404)' });
-          console.log(`   ❌ Invalid (404)`);
         } else {
           invalidUnits.push({ code, reason: 'No unit content detected' });
           console.log(`   ❌ Invalid (no data)`);
         }
       } catch (error: any) {
-        categorizeError(code, error);
+        categorizeError(code, url, error);
         const errInfo = errorUnits.get(code);
-        console.log(`   ⚠️  Error (attempt ${errInfo?.attempts || 1}/${maxRetries})`);
+        if (errInfo) {
+          console.log(`   ⚠️  ${errInfo.kind} error (attempt ${errInfo.attempts}/${maxRetries})`);
+        } else {
+          console.log(`   ❌ Invalid (not found)`);
+        }
       }
     }));
-    
-    // Small delay between batches
-    if (i + CONCURRENT_BATCH < allUnitsToProcess.length) {
-      await new Promise(resolve => setTimeout(resolve, 500));
-    }
   }
 
   console.log(`\n📊 Validation Summary:`);
@@ -380,23 +466,35 @@ export async function syncUnits(config: SyncConfig): Promise<SyncResult> {
 
   console.log(`🌐 Scraping ${validUnits.length} valid units...\n`);
 
-  const urls = validUnits.map(code => 
-    `https://training.gov.au/training/details/${code}/unitdetails`
-  );
+  const urls = validUnits.map(code => unitUrl(code, baseUrl));
 
   const crawler = new Crawler(fetcher, exporter, {
     concurrency: 3,  // Increased from 1 - scrape 3 units at once!
+    drift: { failOnDrift: config.failOnDrift },
     onItem: (item) => {
       const elemCount = item.elements?.length || 0;
       const pcCount = item.elements?.reduce((s, e) => s + e.performanceCriteria.length, 0) || 0;
       console.log(`✅ ${item.code} - ${item.title}`);
       console.log(`   Elements: ${elemCount}, PCs: ${pcCount}, PE: ${item.performanceEvidence ? '✓' : '✗'}, KE: ${item.knowledgeEvidence ? '✓' : '✗'}`);
+      item.parseWarnings?.forEach(warning => console.log(`   ⚠️  ${warning}`));
     }
   });
 
-  await crawler.crawlUocUrls(urls);
+  const crawlResult = await crawler.crawlUocUrls(urls);
   console.log('\n✅ Scraping complete!\n');
 
+  // Units that validated but then failed to scrape are recorded for the next run
+  if (crawlResult.errors.length > 0) {
+    crawlResult.errors.forEach(fileFailure);
+    await saveErrorLog(
+      config.dataDir,
+      invalidUnits,
+      Array.from(errorUnits.values()),
+      allUnitsToProcess.length,
+      crawlResult.success.length
+    );
+  }
+
   // Export to Excel
   console.log('📊 Updating Excel file...');
   const excelExporter = new EnhancedExcelExportService(config.dataDir, config.outputExcel);
@@ -415,7 +513,8 @@ export async function syncUnits(config: SyncConfig): Promise<SyncResult> {
     validCount: validUnits.length,
     invalidCount: invalidUnits.length,
     errorCount: errorUnits.size,
-    retryCount: unitsToRetry.length
+    retryCount: unitsToRetry.length,
+    changedCount: crawlResult.changes.length
   };
 }
 
@@ -450,6 +549,48 @@ async function main() {
     config.inputColumn = args[columnIndex + 1];
   }
 
+  const backendIndex = args.indexOf('--backend');
+  if (backendIndex >= 0 && args[backendIndex + 1]) {
+    const backend = args[backendIndex + 1];
+    if (!isFetchBackend(backend)) {
+      console.error(`❌ Unknown backend "${backend}" (expected "browser" or "http")`);
+      process.exit(1);
+    }
+    config.fetchBackend = backend;
+  }
+
+  const rpmIndex = args.indexOf('--rpm');
+  if (rpmIndex >= 0 && args[rpmIndex + 1]) {
+    try {
+      config.rateLimit = { ...config.rateLimit, requestsPerMinute: parseRequestsPerMinute(args[rpmIndex + 1]) };
+    } catch (error: any) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  if (args.includes('--no-cache')) {
+    config.useCache = false;
+  }
+
+  const baseUrlIndex = args.indexOf('--base-url');
+  if (baseUrlIndex >= 0 && args[baseUrlIndex + 1]) {
+    config.baseUrl = args[baseUrlIndex + 1];
+  }
+
+  config.failOnDrift = args.includes('--fail-on-drift');
+  config.allowDegraded = args.includes('--allow-degraded');
+
+  const maxAgeIndex = args.indexOf('--max-age');
+  if (maxAgeIndex >= 0 && args[maxAgeIndex + 1]) {
+    try {
+      config.cacheMaxAgeMs = parseMaxAge(args[maxAgeIndex + 1]);
+    } catch (error: any) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+  }
+
   if (args.includes('--help') || args.includes('-h')) {
     console.log(`
 Training.gov.au Unit Scraper - Automatic Sync with Retry
@@ -457,7 +598,8 @@ Training.gov.au Unit Scraper - Automatic Sync with Retry
 Usage: npx tsx src/autoSync.ts [options]
 
 Features:
-  ✅ Automatic retry for network errors (up to 3 attempts)
+  ✅ Automatic retry for network errors (within the run, then across up to 3 runs)
+  ✅ Pauses and probes when training.gov.au looks down (circuit breaker)
   ✅ Skip invalid unit codes (404s)  
   ✅ Smart validation - filters fake codes (SCUBA, HACC, etc.)
   ✅ No duplicates - always updates existing units
@@ -467,10 +609,19 @@ Options:
   --input <file>    Input Excel file with unit codes (default: Units.xlsx)
   --column <name>   Column name (default: scan all columns)
   --output <file>   Output Excel file (default: UnitsData.xlsx)
+  --backend <name>  Fetch backend: "browser" (Chromium, default) or "http" (no browser)
+  --rpm <n>         Maximum requests per minute to training.gov.au (default: 60)
+  --no-cache        Ignore cached pages in <data>/cache and download again
+  --max-age <age>   Reuse cached pages younger than this (hours, or 30m/12h/7d; default: 24h)
+  --base-url <url>  Site to sync from, e.g. a local stand-in server
+                    (default: TGA_BASE_URL or https://training.gov.au)
+  --fail-on-drift   Fail when field coverage drops sharply against the last good run
+  --allow-degraded  Overwrite stored units even when the new record lost fields
   --help, -h        Show this help
 
 Examples:
   npx tsx src/autoSync.ts
+  npx tsx src/autoSync.ts --backend http
   npx tsx src/autoSync.ts --input MyUnits.xlsx
   npx tsx src/autoSync.ts --input MyUnits.xlsx --output Results.xlsx
   npx tsx src/autoSync.ts --column "Unit Code"
@@ -511,6 +662,9 @@ Examples:
     if (result.retryCount > 0) {
       console.log(`   🔄 Units to retry: ${result.retryCount}`);
     }
+    if (result.changedCount) {
+      console.log(`   📝 Units changed: ${result.changedCount}`);
+    }
     
     console.log('\n📁 Output files:');
     console.log(`   - ${config.dataDir}/${config.outputExcel} (Excel with color coding)`);
@@ -518,6 +672,9 @@ Examples:
     if (result.errorCount > 0 || result.invalidCount > 0) {
       console.log(`   - ${config.dataDir}/error-log.json (Error details)`);
     }
+    if (result.changedCount) {
+      console.log(`   - ${config.dataDir}/change-report.md and .html (What changed)`);
+    }
     console.log('='.repeat(60) + '\n');
     
     process.exit(result.success ? 0 : 1);
@@ -0,0 +1,304 @@
+/**
+ * Training Package Crawl
+ *
+ * Reads a training package's component listing (e.g. MAR or BSB), enumerates
+ * every unit and scrapes them through the usual Crawler/ExportService
+ * pipeline. Progress is kept in <dataDir>/crawl-package-<CODE>.json so an
+ * interrupted crawl of a large package picks up where it stopped.
+ */
+
+import { Crawler } from "./crawler.js";
+import { createPageSource, FetchBackend, isFetchBackend } from "./pageSource.js";
+import { ExportService } from "./services/exportService.js";
+import { UnitRepository } from "./services/unitRepository.js";
+import { EnhancedExcelExportService } from "./services/enhancedExcelService.js";
+import { parseMaxAge, SnapshotCache } from "./services/snapshotCache.js";
+import { hasUnreadPages, parsePackageListing } from "./parsers/packageParser.js";
+import { configureSharedRateLimiter, parseRequestsPerMinute, RateLimiterOptions } from "./utils/rateLimiter.js";
+import { PackageComponent, TrainingPackage } from "./models/trainingPackage.js";
+import { siteBaseUrl, unitUrl } from "./siteUrls.js";
+import { promises as fs } from "fs";
+import * as path from "path";
+
+export interface PackageCrawlConfig {
+  code: string;                   // Training package code, e.g. "MAR"
+  dataDir: string;
+  outputExcel: string;
+  includeSuperseded?: boolean;    // Also scrape superseded and deleted units
+  forceRescrape?: boolean;        // Re-scrape units already stored
+  restart?: boolean;              // Ignore the progress file of an earlier run
+  fetchBackend?: FetchBackend;
+  useCache?: boolean;
+  cacheMaxAgeMs?: number;
+  rateLimit?: RateLimiterOptions;
+  failOnDrift?: boolean;          // Fail the crawl when field coverage drops sharply
+  allowDegraded?: boolean;        // Overwrite stored units with records that lost fields
+}
+
+interface PackageCrawlProgress {
+  package: string;
+  startedAt: string;
+  completedAt?: string;
+  units: PackageComponent[];
+}
+
+export function packageUrl(code: string): string {
+  return `${siteBaseUrl()}/training/details/${code}`;
+}
+
+function progressPath(dataDir: string, code: string): string {
+  return path.join(dataDir, `crawl-package-${code}.json`);
+}
+
+async function readProgress(file: string): Promise<PackageCrawlProgress | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch (error: any) {
+    if (error.code !== "ENOENT") console.log(`⚠️  Ignoring unreadable progress file ${file}`);
+    return undefined;
+  }
+}
+
+async function writeProgress(file: string, progress: PackageCrawlProgress): Promise<void> {
+  await fs.writeFile(file, JSON.stringify(progress, null, 2), "utf-8");
+}
+
+// Stored unit codes with the time each was last fetched
+function readFetchTimes(dataDir: string): Map<string, string> {
+  const repository = UnitRepository.open(dataDir);
+  try {
+    return new Map(repository.all().map(unit => [unit.code, unit.lastFetchedAt || ""]));
+  } finally {
+    repository.close();
+  }
+}
+
+export async function crawlPackage(config: PackageCrawlConfig) {
+  configureSharedRateLimiter({
+    requestsPerMinute: 20,
+    burst: 1,
+    maxConcurrency: 1,
+    ...config.rateLimit
+  });
+
+  const pageSource = createPageSource({
+    backend: config.fetchBackend,
+    cache: new SnapshotCache(config.dataDir, {
+      maxAgeMs: config.useCache === false ? 0 : config.cacheMaxAgeMs
+    }),
+    headless: true,
+    timeout: 30000
+  });
+
+  const progressFile = progressPath(config.dataDir, config.code);
+  const previous = config.restart ? undefined : await readProgress(progressFile);
+  const resuming = previous !== undefined && !previous.completedAt;
+
+  // Step 1: Read the component listing, or reuse it from an unfinished run
+  let progress: PackageCrawlProgress;
+  if (resuming) {
+    progress = previous;
+    console.log(`↩️  Resuming crawl of ${config.code} started ${progress.startedAt}`);
+  } else {
+    const url = packageUrl(config.code);
+    console.log(`📦 Fetching component listing of ${config.code}...`);
+
+    let trainingPackage: TrainingPackage;
+    try {
+      const snapshots = pageSource.getAllPages
+        ? await pageSource.getAllPages(url)
+        : [await pageSource.get(url)];
+      if (hasUnreadPages(snapshots)) {
+        console.log(`   ⚠️  Only the first page of the listing was read; use --backend browser for the full listing`);
+      }
+      trainingPackage = parsePackageListing(snapshots, url);
+    } catch (error) {
+      await pageSource.close();
+      throw error;
+    }
+
+    if (trainingPackage.units.length === 0) {
+      await pageSource.close();
+      throw new Error(`No units found in the component listing of ${config.code}`);
+    }
+
+    const superseded = trainingPackage.units.filter(u => u.superseded).length;
+    console.log(`   ✅ ${trainingPackage.code} - ${trainingPackage.title}`);
+    console.log(`   Units: ${trainingPackage.units.length} (${superseded} superseded or deleted)`);
+
+    progress = {
+      package: config.code,
+      startedAt: new Date().toISOString(),
+      units: trainingPackage.units
+    };
+    await writeProgress(progressFile, progress);
+  }
+
+  // Step 2: Work out which units still need scraping
+  const fetchTimes = readFetchTimes(config.dataDir);
+  const unitCodes = progress.units
+    .filter(u => config.includeSuperseded || !u.superseded)
+    .map(u => u.code);
+
+  const isDone = (code: string): boolean => {
+    const fetchedAt = fetchTimes.get(code);
+    if (fetchedAt === undefined) return false;
+    if (resuming && fetchedAt >= progress.startedAt) return true;
+    return !config.forceRescrape;
+  };
+  const toScrape = unitCodes.filter(code => !isDone(code));
+
+  console.log(`\n📋 ${unitCodes.length} units in ${config.code}${config.includeSuperseded ? " (including superseded)" : ""}`);
+  console.log(`   Already scraped: ${unitCodes.length - toScrape.length}`);
+  console.log(`   To scrape: ${toScrape.length}\n`);
+
+  // Step 3: Scrape them
+  let unitFailures = 0;
+  if (toScrape.length > 0) {
+    const exporter = new ExportService(config.dataDir, { allowDegraded: config.allowDegraded });
+    const crawler = new Crawler(pageSource, exporter, {
+      concurrency: 3,
+      drift: { failOnDrift: config.failOnDrift },
+      onItem: (item) => console.log(`✅ ${item.code} - ${item.title}`)
+    });
+    const result = await crawler.crawlUocUrls(
+      toScrape.map(code => unitUrl(code))
+    );
+    unitFailures = result.errors.length;
+  } else {
+    await pageSource.close();
+  }
+
+  // Failed units are picked up again when the crawl is re-run
+  if (unitFailures === 0) {
+    progress.completedAt = new Date().toISOString();
+    await writeProgress(progressFile, progress);
+  }
+
+  // Step 4: Rebuild the workbook
+  const jsonlPath = path.join(config.dataDir, "uoc.jsonl");
+  if (await fs.access(jsonlPath).then(() => true).catch(() => false)) {
+    console.log("\n📊 Rebuilding Excel file...");
+    const excelExporter = new EnhancedExcelExportService(config.dataDir, config.outputExcel);
+    await excelExporter.exportFromJsonl(jsonlPath, config.outputExcel, false);
+  }
+
+  console.log("\n" + "=".repeat(60));
+  console.log(`📋 Package crawl results for ${config.code}:`);
+  console.log(`   📚 Units scraped: ${toScrape.length - unitFailures}`);
+  console.log(`   ⏭️  Skipped: ${unitCodes.length - toScrape.length}`);
+  if (unitFailures > 0) {
+    console.log(`   ⚠️  Unit failures: ${unitFailures} (run the same command again to retry them)`);
+  }
+  console.log("=".repeat(60) + "\n");
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log(`
+Usage: npx tsx src/crawlPackage.ts <package> [options]
+
+Reads a training package's component listing, scrapes every unit it lists
+into <data>/uoc.jsonl and rebuilds the Excel workbook. An interrupted crawl
+resumes from <data>/crawl-package-<package>.json when run again.
+
+Options:
+  --include-superseded  Also scrape superseded and deleted units
+  --force               Re-scrape units that are already stored
+  --restart             Read the listing again instead of resuming an unfinished crawl
+  --data <dir>          Data directory (default: data)
+  --output <file>       Excel file to rebuild (default: UnitsData.xlsx)
+  --backend <name>      Fetch backend: "browser" (Chromium, default) or "http" (no browser)
+  --rpm <n>             Maximum requests per minute to training.gov.au (default: 20)
+  --no-cache            Ignore cached pages in <data>/cache and download again
+  --max-age <age>       Reuse cached pages younger than this (hours, or 30m/12h/7d; default: 24h)
+  --fail-on-drift       Fail when field coverage drops sharply against the last good run
+  --allow-degraded      Overwrite stored units even when the new record lost fields
+  --help, -h            Show this help
+
+Examples:
+  npx tsx src/crawlPackage.ts MAR
+  npx tsx src/crawlPackage.ts BSB --include-superseded --rpm 30
+`);
+    return;
+  }
+
+  const valueFlags = ["--data", "--output", "--backend", "--rpm", "--max-age"];
+  const positional = args.filter((arg, i) =>
+    !arg.startsWith("--") && !valueFlags.includes(args[i - 1])
+  );
+
+  const config: PackageCrawlConfig = {
+    code: (positional[0] || "").toUpperCase(),
+    dataDir: "data",
+    outputExcel: "UnitsData.xlsx",
+    includeSuperseded: args.includes("--include-superseded"),
+    forceRescrape: args.includes("--force"),
+    restart: args.includes("--restart"),
+    failOnDrift: args.includes("--fail-on-drift"),
+    allowDegraded: args.includes("--allow-degraded")
+  };
+
+  const dataIndex = args.indexOf("--data");
+  if (dataIndex >= 0 && args[dataIndex + 1]) {
+    config.dataDir = args[dataIndex + 1];
+  }
+
+  const outputIndex = args.indexOf("--output");
+  if (outputIndex >= 0 && args[outputIndex + 1]) {
+    config.outputExcel = args[outputIndex + 1];
+  }
+
+  const backendIndex = args.indexOf("--backend");
+  if (backendIndex >= 0 && args[backendIndex + 1]) {
+    const backend = args[backendIndex + 1];
+    if (!isFetchBackend(backend)) {
+      console.error(`❌ Unknown backend "${backend}" (expected "browser" or "http")`);
+      process.exit(1);
+    }
+    config.fetchBackend = backend;
+  }
+
+  const rpmIndex = args.indexOf("--rpm");
+  if (rpmIndex >= 0 && args[rpmIndex + 1]) {
+    try {
+      config.rateLimit = { requestsPerMinute: parseRequestsPerMinute(args[rpmIndex + 1]) };
+    } catch (error: any) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  if (args.includes("--no-cache")) {
+    config.useCache = false;
+  }
+
+  const maxAgeIndex = args.indexOf("--max-age");
+  if (maxAgeIndex >= 0 && args[maxAgeIndex + 1]) {
+    try {
+      config.cacheMaxAgeMs = parseMaxAge(args[maxAgeIndex + 1]);
+    } catch (error: any) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  if (!config.code) {
+    console.error("❌ No training package code given (see --help)");
+    process.exit(1);
+  }
+
+  await fs.mkdir(config.dataDir, { recursive: true });
+
+  console.log(`\n📦 Crawling training package: ${config.code}\n`);
+  await crawlPackage(config);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((e) => {
+    console.error("\n❌ Fatal error:", e.message);
+    process.exit(1);
+  });
+}
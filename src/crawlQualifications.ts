@@ -0,0 +1,244 @@
+/**
+ * Qualification Crawl
+ *
+ * Scrapes qualification pages (e.g. MAR20318), stores them in
+ * <dataDir>/qualifications.jsonl, then scrapes every core and elective unit
+ * through the usual Crawler/ExportService pipeline and rebuilds the workbook.
+ */
+
+import { Crawler } from "./crawler.js";
+import { createPageSource, FetchBackend, isFetchBackend } from "./pageSource.js";
+import { ExportService } from "./services/exportService.js";
+import { EnhancedExcelExportService } from "./services/enhancedExcelService.js";
+import { JsonlStore } from "./services/jsonlStore.js";
+import { UnitRepository } from "./services/unitRepository.js";
+import { parseMaxAge, SnapshotCache } from "./services/snapshotCache.js";
+import { parseQualificationHtml, qualificationUnitCodes } from "./parsers/qualificationParser.js";
+import { configureSharedRateLimiter, parseRequestsPerMinute, RateLimiterOptions } from "./utils/rateLimiter.js";
+import { classifyError } from "./errors.js";
+import { Qualification } from "./models/qualification.js";
+import { siteBaseUrl, unitUrl } from "./siteUrls.js";
+import { promises as fs } from "fs";
+import * as path from "path";
+
+export interface QualificationCrawlConfig {
+  codes: string[];             // Qualification codes, e.g. ["MAR20318"]
+  dataDir: string;
+  outputExcel: string;
+  forceRescrape?: boolean;     // Re-scrape units already stored
+  fetchBackend?: FetchBackend;
+  useCache?: boolean;
+  cacheMaxAgeMs?: number;
+  rateLimit?: RateLimiterOptions;
+}
+
+export function qualificationUrl(code: string): string {
+  return `${siteBaseUrl()}/training/details/${code}/qualdetails`;
+}
+
+function readExistingUnitCodes(dataDir: string): Set<string> {
+  const repository = UnitRepository.open(dataDir);
+  try {
+    return new Set(repository.codes());
+  } finally {
+    repository.close();
+  }
+}
+
+export async function crawlQualifications(config: QualificationCrawlConfig) {
+  configureSharedRateLimiter({
+    requestsPerMinute: 20,
+    burst: 1,
+    maxConcurrency: 1,
+    ...config.rateLimit
+  });
+
+  const pageSource = createPageSource({
+    backend: config.fetchBackend,
+    cache: new SnapshotCache(config.dataDir, {
+      maxAgeMs: config.useCache === false ? 0 : config.cacheMaxAgeMs
+    }),
+    headless: true,
+    timeout: 30000
+  });
+
+  const store = new JsonlStore<Qualification>(config.dataDir, "qualifications.jsonl");
+  const qualifications: Qualification[] = [];
+  const failed: { code: string; error: string }[] = [];
+
+  // Step 1: Scrape the qualification pages
+  for (const code of config.codes) {
+    const url = qualificationUrl(code);
+    console.log(`🎓 Fetching qualification ${code}...`);
+
+    try {
+      const html = await pageSource.get(url);
+      const qualification = parseQualificationHtml(html, url);
+
+      if (qualification.code === "Unknown") {
+        failed.push({ code, error: "Page did not contain a qualification header" });
+        console.log(`   ❌ No qualification details found`);
+        continue;
+      }
+
+      const electives = qualification.electiveGroups.reduce((n, g) => n + g.units.length, 0);
+      console.log(`   ✅ ${qualification.code} - ${qualification.title}`);
+      console.log(`   Core units: ${qualification.coreUnits.length}, Electives: ${electives} in ${qualification.electiveGroups.length} group(s)`);
+      qualification.parseWarnings?.forEach(warning => console.log(`   ⚠️  ${warning}`));
+
+      await store.upsert(qualification);
+      qualifications.push(qualification);
+    } catch (error: any) {
+      failed.push({ code, error: `${classifyError(error)}: ${error.message || error}` });
+      console.log(`   ⚠️  ${classifyError(error)}: ${error.message || error}`);
+    }
+  }
+
+  // Step 2: Scrape their units
+  const existing = config.forceRescrape ? new Set<string>() : readExistingUnitCodes(config.dataDir);
+  const unitCodes = [...new Set(qualifications.flatMap(qualificationUnitCodes))];
+  const toScrape = unitCodes.filter(code => !existing.has(code));
+
+  console.log(`\n📋 ${unitCodes.length} units across ${qualifications.length} qualification(s)`);
+  console.log(`   Already scraped: ${unitCodes.length - toScrape.length}`);
+  console.log(`   To scrape: ${toScrape.length}\n`);
+
+  let unitFailures = 0;
+  if (toScrape.length > 0) {
+    const crawler = new Crawler(pageSource, new ExportService(config.dataDir), {
+      concurrency: 3,
+      onItem: (item) => console.log(`✅ ${item.code} - ${item.title}`)
+    });
+    const result = await crawler.crawlUocUrls(
+      toScrape.map(code => unitUrl(code))
+    );
+    unitFailures = result.errors.length;
+  } else {
+    await pageSource.close();
+  }
+
+  // Step 3: Rebuild the workbook so the Qualifications sheet matches the store
+  const jsonlPath = path.join(config.dataDir, "uoc.jsonl");
+  if (await fs.access(jsonlPath).then(() => true).catch(() => false)) {
+    console.log("\n📊 Rebuilding Excel file...");
+    const excelExporter = new EnhancedExcelExportService(config.dataDir, config.outputExcel);
+    await excelExporter.exportFromJsonl(jsonlPath, config.outputExcel, false);
+  }
+
+  console.log("\n" + "=".repeat(60));
+  console.log("📋 Qualification crawl results:");
+  console.log(`   🎓 Qualifications scraped: ${qualifications.length}`);
+  console.log(`   📚 Units scraped: ${toScrape.length - unitFailures}`);
+  if (unitFailures > 0) console.log(`   ⚠️  Unit failures: ${unitFailures}`);
+  if (failed.length > 0) {
+    console.log(`   ❌ Failed qualifications: ${failed.length}`);
+    failed.forEach(({ code, error }) => console.log(`      - ${code}: ${error}`));
+  }
+  console.log("=".repeat(60) + "\n");
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log(`
+Usage: npx tsx src/crawlQualifications.ts <code> [code...] [options]
+
+Scrapes qualification pages, stores their packaging rules in
+<data>/qualifications.jsonl, then scrapes every core and elective unit and
+rebuilds the Excel workbook (including a Qualifications sheet).
+
+Options:
+  --data <dir>      Data directory (default: data)
+  --output <file>   Excel file to rebuild (default: UnitsData.xlsx)
+  --force           Re-scrape units that are already stored
+  --backend <name>  Fetch backend: "browser" (Chromium, default) or "http" (no browser)
+  --rpm <n>         Maximum requests per minute to training.gov.au (default: 20)
+  --no-cache        Ignore cached pages in <data>/cache and download again
+  --max-age <age>   Reuse cached pages younger than this (hours, or 30m/12h/7d; default: 24h)
+  --help, -h        Show this help
+
+Examples:
+  npx tsx src/crawlQualifications.ts MAR20318
+  npx tsx src/crawlQualifications.ts MAR20318 MAR30918 --backend http
+`);
+    return;
+  }
+
+  const config: QualificationCrawlConfig = {
+    codes: [],
+    dataDir: "data",
+    outputExcel: "UnitsData.xlsx",
+    forceRescrape: args.includes("--force")
+  };
+
+  const valueFlags = ["--data", "--output", "--backend", "--rpm", "--max-age"];
+  for (let i = 0; i < args.length; i++) {
+    if (valueFlags.includes(args[i])) {
+      i++;
+    } else if (!args[i].startsWith("--")) {
+      config.codes.push(args[i].toUpperCase());
+    }
+  }
+
+  const dataIndex = args.indexOf("--data");
+  if (dataIndex >= 0 && args[dataIndex + 1]) {
+    config.dataDir = args[dataIndex + 1];
+  }
+
+  const outputIndex = args.indexOf("--output");
+  if (outputIndex >= 0 && args[outputIndex + 1]) {
+    config.outputExcel = args[outputIndex + 1];
+  }
+
+  const backendIndex = args.indexOf("--backend");
+  if (backendIndex >= 0 && args[backendIndex + 1]) {
+    const backend = args[backendIndex + 1];
+    if (!isFetchBackend(backend)) {
+      console.error(`❌ Unknown backend "${backend}" (expected "browser" or "http")`);
+      process.exit(1);
+    }
+    config.fetchBackend = backend;
+  }
+
+  const rpmIndex = args.indexOf("--rpm");
+  if (rpmIndex >= 0 && args[rpmIndex + 1]) {
+    try {
+      config.rateLimit = { requestsPerMinute: parseRequestsPerMinute(args[rpmIndex + 1]) };
+    } catch (error: any) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  if (args.includes("--no-cache")) {
+    config.useCache = false;
+  }
+
+  const maxAgeIndex = args.indexOf("--max-age");
+  if (maxAgeIndex >= 0 && args[maxAgeIndex + 1]) {
+    try {
+      config.cacheMaxAgeMs = parseMaxAge(args[maxAgeIndex + 1]);
+    } catch (error: any) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  if (config.codes.length === 0) {
+    console.error("❌ No qualification codes given (see --help)");
+    process.exit(1);
+  }
+
+  await fs.mkdir(config.dataDir, { recursive: true });
+
+  console.log(`\n🎓 Crawling qualifications: ${config.codes.join(", ")}\n`);
+  await crawlQualifications(config);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((e) => {
+    console.error("\n❌ Fatal error:", e.message);
+    process.exit(1);
+  });
+}
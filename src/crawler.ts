@@ -1,30 +1,50 @@
-import { Fetcher } from "./fetcher.js";
+import { PageSource } from "./pageSource.js";
 import { parseUocHtml } from "./parsers/uocParser.js";
-import { ExportService } from "./services/exportService.js";
-import { sleep } from "./utils/requestUtils.js";
+import { ParserProfile } from "./parsers/parserProfile.js";
+import { DegradedRecordError, ExportService } from "./services/exportService.js";
 import { Uoc } from "./models/uoc.js";
+import { createScrapeResult, recordFailure, ScrapeResult } from "./models/scrapeResult.js";
+import { describeProvenance, reviewEntry } from "./models/provenance.js";
+import { describeAlert, DriftDetector, DriftOptions } from "./services/driftDetector.js";
+
+// Unit code from a /training/details/{code}/unitdetails URL
+function codeFromUrl(url: string): string {
+  const match = url.match(/\/training\/details\/([^/?#]+)/);
+  return match ? decodeURIComponent(match[1]) : url;
+}
 
 export type CrawlerOptions = {
   concurrency?: number;
   onItem?: (item: Uoc) => void | Promise<void>;
+  profile?: ParserProfile;  // Defaults to PARSER_PROFILE or the built-in profile
+  drift?: DriftOptions | false;  // Coverage check against <dataDir>/coverage-baseline.json; false to skip
 };
 
 export class Crawler {
-  private fetcher: Fetcher;
+  private fetcher: PageSource;
   private exporter: ExportService;
   private concurrency: number;
   private onItem?: (item: Uoc) => void | Promise<void>;
+  private profile?: ParserProfile;
+  private drift?: DriftOptions | false;
 
-  constructor(fetcher: Fetcher, exporter: ExportService, opts?: CrawlerOptions) {
+  constructor(fetcher: PageSource, exporter: ExportService, opts?: CrawlerOptions) {
     this.fetcher = fetcher;
     this.exporter = exporter;
     this.concurrency = Math.max(1, opts?.concurrency ?? 1);
     this.onItem = opts?.onItem;
+    this.profile = opts?.profile;
+    this.drift = opts?.drift;
   }
 
-  async crawlUocUrls(urls: string[]) {
+  async crawlUocUrls(urls: string[]): Promise<ScrapeResult> {
     await this.exporter.init();
 
+    const result = createScrapeResult();
+    const parsed: Uoc[] = [];
+    // Units to store once the run's coverage has been checked
+    const scraped: { url: string; uoc: Uoc }[] = [];
+
     const queue = [...new Set(urls)];
     let idx = 0;
 
@@ -33,14 +53,26 @@ export class Crawler {
         const i = idx++;
         if (i >= queue.length) break;
         const url = queue[i];
+        const code = codeFromUrl(url);
+
+        let html: string;
+        try {
+          html = await this.fetcher.get(url);
+        } catch (err: any) {
+          const failure = recordFailure(result, code, url, err);
+          console.error(`Failed (${failure.kind}): ${url}`, failure.error);
+          continue;
+        }
+
         try {
-          const html = await this.fetcher.get(url);
-          const uoc = parseUocHtml(html, url);
+          const uoc = parseUocHtml(html, url, this.profile);
+          parsed.push(uoc);
+          if (uoc.code === "Unknown") throw new Error("Page did not contain a unit header");
           if (this.onItem) await this.onItem(uoc);
-          await this.exporter.writeJsonl(uoc);
-          await sleep(500 + Math.round(Math.random() * 500));
+          scraped.push({ url, uoc });
         } catch (err: any) {
-          console.error(`Failed: ${url}`, err?.message || err);
+          const failure = recordFailure(result, code, url, err, "parse");
+          console.error(`Failed (parse): ${url}`, failure.error);
         }
       }
     };
@@ -48,7 +80,58 @@ export class Crawler {
     const workers = Array.from({ length: this.concurrency }, () => worker());
     await Promise.all(workers);
 
-    // Close browser after all work done
+    // Release the page source (closes the browser, if any)
     await this.fetcher.close();
+
+    try {
+      // Checked before anything is stored, so a run that fails on drift
+      // leaves the unit store and uoc.jsonl as they were, new units included
+      if (this.drift !== false) {
+        // Throws a DriftError when failOnDrift is set
+        const drift = await new DriftDetector(this.exporter.outDir, this.drift).check(parsed);
+        result.drift = drift.alerts;
+        if (drift.alerts.length > 0) {
+          console.log(`📉 Parser drift: coverage fell for ${drift.alerts.map(describeAlert).join(", ")}`);
+          console.log(`   The site's markup may have changed; check the parser profile before trusting this run.`);
+        }
+      }
+
+      for (const { url, uoc } of scraped) {
+        try {
+          await this.exporter.writeUnit(uoc);
+        } catch (err: any) {
+          const failure = recordFailure(result, uoc.code, url, err, err instanceof DegradedRecordError ? "degraded" : "parse");
+          console.error(`Failed (${failure.kind}): ${url}`, failure.error);
+          continue;
+        }
+        result.success.push(uoc.code);
+
+        const review = reviewEntry(uoc);
+        if (review) {
+          result.needsReview.push(review);
+          console.log(`   🔎 ${uoc.code} needs review: ${review.fields.map(describeProvenance).join(", ")}`);
+        }
+      }
+
+      // Refresh uoc.jsonl and releases.jsonl from the unit store
+      await this.exporter.exportJsonl();
+    } finally {
+      this.exporter.close();
+
+      result.changes = this.exporter.takeChanges();
+      if (result.changes.length > 0) {
+        const reportPath = await this.exporter.writeChangeReport(result.changes);
+        console.log(`📝 ${result.changes.length} unit(s) changed since they were last stored; see ${reportPath}`);
+      }
+    }
+
+    if (result.success.length > 0) {
+      const reportPath = await this.exporter.writeReviewReport(result.needsReview);
+      if (result.needsReview.length > 0) {
+        console.log(`🔎 ${result.needsReview.length} unit(s) have low-confidence fields; see ${reportPath}`);
+      }
+    }
+
+    return result;
   }
 }
\ No newline at end of file
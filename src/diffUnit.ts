@@ -0,0 +1,133 @@
+/**
+ * Unit Diff
+ *
+ * Compares two stored scrapes or two stored releases of a unit and reports
+ * what changed in its elements, performance criteria and evidence, as
+ * Markdown on the console or as Markdown/HTML files.
+ */
+
+import { promises as fs } from "fs";
+import { UnitRepository } from "./services/unitRepository.js";
+import { renderHtml, renderMarkdown } from "./services/changeReport.js";
+import { diffUnits, UnitDiff } from "./models/unitDiff.js";
+import { Uoc } from "./models/uoc.js";
+
+export interface DiffQuery {
+  code: string;
+  dataDir: string;
+  from?: string;          // Content hash (or prefix), or a date for the version stored then
+  to?: string;
+  fromRelease?: string;   // Release number, e.g. "1"
+  toRelease?: string;
+}
+
+const isDate = (text: string) => /^\d{4}-\d{2}-\d{2}/.test(text);
+
+/**
+ * Diff of two versions of a unit. Without versions or releases, the two
+ * newest stored versions are compared; without `to`, the current record.
+ */
+export function diffStoredUnit(query: DiffQuery): UnitDiff {
+  const repository = UnitRepository.open(query.dataDir);
+  try {
+    const find = (version?: string, release?: string): Uoc | undefined => {
+      if (release) return repository.getRelease(query.code, `Release ${release}`);
+      if (version) return isDate(version) ? repository.asOf(query.code, version) : repository.version(query.code, version);
+      return undefined;
+    };
+
+    const after = query.to || query.toRelease ? find(query.to, query.toRelease) : repository.get(query.code);
+
+    let before: Uoc | undefined;
+    if (query.from || query.fromRelease) {
+      before = find(query.from, query.fromRelease);
+    } else {
+      // The version stored before the newest one
+      const previous = repository.history(query.code).filter(v => v.current)[1];
+      before = previous && repository.version(query.code, previous.contentHash);
+    }
+
+    if (!before || !after) {
+      const missing = !before ? "an earlier version" : "the version to compare with";
+      throw new Error(`No stored ${missing} of ${query.code} (see npx tsx src/unitHistory.ts ${query.code})`);
+    }
+    return diffUnits(before, after);
+  } finally {
+    repository.close();
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log(`
+Usage: npx tsx src/diffUnit.ts <code> [options]
+
+Reports what changed between two stored versions of a unit: added, removed,
+reworded and renumbered elements, performance criteria and evidence items.
+Compares the two newest stored versions unless told otherwise.
+
+Options:
+  --from <hash|date>    Earlier version: a content hash (prefix) or the version stored on a date
+  --to <hash|date>      Later version (default: the current record)
+  --from-release <n>    Earlier stored release, e.g. 1
+  --to-release <n>      Later stored release, e.g. 2
+  --md <file>           Write the report as Markdown
+  --html <file>         Write the report as HTML
+  --data <dir>          Data directory holding units.db (default: data)
+  --help, -h            Show this help
+
+Examples:
+  npx tsx src/diffUnit.ts BSBTWK201
+  npx tsx src/diffUnit.ts BSBTWK201 --from-release 1 --to-release 2 --html BSBTWK201.html
+  npx tsx src/diffUnit.ts BSBTWK201 --from 2025-01-01 --md BSBTWK201.md
+`);
+    return;
+  }
+
+  const valueFlags = ["--from", "--to", "--from-release", "--to-release", "--md", "--html", "--data"];
+  const code = args.find((arg, i) => !arg.startsWith("--") && !valueFlags.includes(args[i - 1]));
+  if (!code) {
+    console.error("❌ No unit code given (see --help)");
+    process.exit(1);
+  }
+
+  const value = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const query: DiffQuery = {
+    code: code.toUpperCase(),
+    dataDir: value("--data") || "data",
+    from: value("--from"),
+    to: value("--to"),
+    fromRelease: value("--from-release")?.replace(/^release\s*/i, ""),
+    toRelease: value("--to-release")?.replace(/^release\s*/i, "")
+  };
+
+  const diff = diffStoredUnit(query);
+  const title = `${diff.code} changes`;
+  const mdFile = value("--md");
+  const htmlFile = value("--html");
+
+  if (mdFile) {
+    await fs.writeFile(mdFile, renderMarkdown([diff], title), "utf-8");
+    console.log(`✅ Markdown report written to ${mdFile}`);
+  }
+  if (htmlFile) {
+    await fs.writeFile(htmlFile, renderHtml([diff], title), "utf-8");
+    console.log(`✅ HTML report written to ${htmlFile}`);
+  }
+  if (!mdFile && !htmlFile) {
+    console.log(renderMarkdown([diff], title));
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((e) => {
+    console.error("\n❌ Fatal error:", e.message);
+    process.exit(1);
+  });
+}
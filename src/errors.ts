@@ -0,0 +1,100 @@
+/**
+ * Typed fetch errors. Fetchers throw these so callers can classify failures
+ * by type instead of sniffing error messages or page HTML.
+ */
+
+export type FetchErrorKind =
+  | "not-found"     // 404/410 or the site's "page not found" page
+  | "timeout"       // Navigation or request timed out
+  | "rate-limited"  // 429 (or 503 with Retry-After)
+  | "render"        // Page loaded but never rendered usable content
+  | "http"          // Any other non-2xx status
+  | "network";      // Connection-level failure or unknown error
+
+export class FetchError extends Error {
+  readonly kind: FetchErrorKind = "network";
+  readonly url: string;
+  readonly status?: number;
+
+  constructor(message: string, url: string, status?: number) {
+    super(message);
+    this.name = new.target.name;
+    this.url = url;
+    this.status = status;
+  }
+}
+
+export class NotFoundError extends FetchError {
+  readonly kind = "not-found";
+}
+
+export class TimeoutError extends FetchError {
+  readonly kind = "timeout";
+}
+
+export class RateLimitedError extends FetchError {
+  readonly kind = "rate-limited";
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, url: string, status?: number, retryAfterMs?: number) {
+    super(message, url, status);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class RenderError extends FetchError {
+  readonly kind = "render";
+}
+
+export class HttpStatusError extends FetchError {
+  readonly kind = "http";
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | undefined | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Map a non-2xx navigation/response status to the matching typed error.
+ */
+export function errorFromStatus(status: number, url: string, retryAfter?: string | null): FetchError {
+  if (status === 404 || status === 410) {
+    return new NotFoundError(`HTTP ${status}: page not found`, url, status);
+  }
+  if (status === 429 || (status === 503 && retryAfter)) {
+    return new RateLimitedError(`HTTP ${status}: rate limited`, url, status, parseRetryAfter(retryAfter));
+  }
+  return new HttpStatusError(`HTTP ${status}`, url, status);
+}
+
+/**
+ * Classify any thrown value. Typed errors report their own kind; anything else
+ * is treated as a network failure.
+ */
+export function classifyError(error: unknown): FetchErrorKind {
+  return error instanceof FetchError ? error.kind : "network";
+}
+
+
+/**
+ * Transient failures are worth retrying; a missing page or a 4xx never is.
+ * Untyped errors fall back to the axios-style `response.status` check.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof FetchError) {
+    if (error.kind === "not-found") return false;
+    if (error.kind === "http") return (error.status ?? 0) >= 500;
+    return true;
+  }
+
+  const status = (error as any)?.response?.status;
+  if (status && status !== 429 && status >= 400 && status < 500) return false;
+  return true;
+}
@@ -1,29 +1,96 @@
-import puppeteer, { Browser, Page } from "puppeteer";
-import { sleep } from "./utils/requestUtils.js";
+import puppeteer, { Browser, HTTPRequest, Page, ProtocolError, TimeoutError as PuppeteerTimeoutError } from "puppeteer";
+import { getSharedRateLimiter, RateLimiter } from "./utils/rateLimiter.js";
+import { PageSource } from "./pageSource.js";
+import { SnapshotCache } from "./services/snapshotCache.js";
+import { errorFromStatus, FetchError, NotFoundError, RenderError, TimeoutError } from "./errors.js";
+import { hasUnitContent, isNotFoundPage } from "./parsers/pageDetection.js";
 
 export type FetcherOptions = {
-  minDelayMs?: number;
+  rateLimiter?: RateLimiter;  // Defaults to the process-wide shared limiter
   headless?: boolean;
   timeout?: number;
+  cache?: SnapshotCache;  // Serve fresh snapshots from disk and store new downloads
+  poolSize?: number;          // Browser pages kept open and reused (default: 3)
+  blockResources?: boolean;   // Abort images, fonts, stylesheets and analytics (default: true)
+  renderTimeout?: number;     // Max wait for unit content after navigation (default: 10000)
+  contentSelectors?: string[]; // Selectors that mark a fully rendered unit page
 };
 
-export class Fetcher {
-  private lastRequestAt = 0;
-  private minDelayMs: number;
+export interface FetchTiming {
+  url: string;
+  navigationMs: number;   // goto() until DOMContentLoaded
+  renderMs: number;       // Waiting for the content selectors
+  totalMs: number;        // Including waiting for a free page
+  blockedRequests: number;
+}
+
+// The parser reads the hero code/title and the elements table
+export const DEFAULT_CONTENT_SELECTORS = [".heroSubheading .title strong", "table tbody tr td"];
+
+// Upper bound on "Next" clicks per paginated table
+const MAX_LISTING_PAGES = 500;
+
+const BLOCKED_RESOURCE_TYPES = new Set(["image", "media", "font", "stylesheet"]);
+
+const BLOCKED_URL_PATTERNS = [
+  /google-analytics\.com/,
+  /googletagmanager\.com/,
+  /doubleclick\.net/,
+  /\/dewrmon_/,   // Dynatrace RUM agent
+  /\/rb_[0-9a-f-]+/ // Dynatrace beacon
+];
+
+// Convert Puppeteer failures into typed fetch errors
+function toFetchError(error: any, url: string): FetchError {
+  if (error instanceof FetchError) return error;
+
+  const message = error?.message || String(error);
+  if (error instanceof PuppeteerTimeoutError) {
+    return new TimeoutError(`Navigation timed out: ${message}`, url);
+  }
+  if (
+    error instanceof ProtocolError ||
+    /Target closed|Connection closed|Protocol error|Execution context was destroyed/i.test(message)
+  ) {
+    return new RenderError(`Browser failed while rendering: ${message}`, url);
+  }
+  return new FetchError(message, url);
+}
+
+// Page-level counter for aborted requests, reset per navigation
+const blockedCounts = new WeakMap<Page, number>();
+
+export class Fetcher implements PageSource {
+  private rateLimiter: RateLimiter;
   private headless: boolean;
   private timeout: number;
-  private browser: Browser | null = null;
+  private browser: Promise<Browser> | null = null;
+  private cache?: SnapshotCache;
+  private poolSize: number;
+  private blockResources: boolean;
+  private renderTimeout: number;
+  private contentSelectors: string[];
+  private idlePages: Page[] = [];
+  private openPages = 0;
+  private waiters: { resolve: (page: Page) => void; reject: (error: any) => void }[] = [];
+  private timings: FetchTiming[] = [];
 
   constructor(opts?: FetcherOptions) {
-    this.minDelayMs = opts?.minDelayMs ?? 2000;
+    this.rateLimiter = opts?.rateLimiter ?? getSharedRateLimiter();
     this.headless = opts?.headless ?? true;
     this.timeout = opts?.timeout ?? 30000;
+    this.cache = opts?.cache;
+    this.poolSize = Math.max(1, opts?.poolSize ?? 3);
+    this.blockResources = opts?.blockResources ?? true;
+    this.renderTimeout = opts?.renderTimeout ?? 10000;
+    this.contentSelectors = opts?.contentSelectors ?? DEFAULT_CONTENT_SELECTORS;
   }
 
-  private async ensureBrowser(): Promise<Browser> {
+  // Concurrent callers share a single launch
+  private ensureBrowser(): Promise<Browser> {
     if (!this.browser) {
       console.log("[Fetcher] Launching browser...");
-      this.browser = await puppeteer.launch({
+      this.browser = puppeteer.launch({
         headless: this.headless,
         args: [
           '--no-sandbox',
@@ -32,61 +99,276 @@ export class Fetcher {
           '--disable-accelerated-2d-canvas',
           '--disable-gpu'
         ]
+      }).then((browser) => {
+        console.log("[Fetcher] Browser launched");
+        return browser;
+      }).catch((error) => {
+        this.browser = null;
+        throw error;
       });
-      console.log("[Fetcher] Browser launched");
     }
     return this.browser;
   }
 
-  private async ensurePoliteDelay() {
-    const since = Date.now() - this.lastRequestAt;
-    const wait = Math.max(0, this.minDelayMs - since);
-    if (wait > 0) await sleep(wait);
+  private async createPage(): Promise<Page> {
+    const browser = await this.ensureBrowser();
+    const page = await browser.newPage();
+
+    await page.setUserAgent(
+      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
+    );
+
+    if (this.blockResources) {
+      await page.setRequestInterception(true);
+      page.on("request", (request: HTTPRequest) => {
+        if (request.isInterceptResolutionHandled()) return;
+
+        const blocked =
+          BLOCKED_RESOURCE_TYPES.has(request.resourceType()) ||
+          BLOCKED_URL_PATTERNS.some(pattern => pattern.test(request.url()));
+
+        if (blocked) {
+          blockedCounts.set(page, (blockedCounts.get(page) ?? 0) + 1);
+          request.abort().catch(() => {});
+        } else {
+          request.continue().catch(() => {});
+        }
+      });
+    }
+
+    return page;
+  }
+
+  // Take an idle page, open a new one while under poolSize, or wait for a release
+  private async acquirePage(): Promise<Page> {
+    const idle = this.idlePages.pop();
+    if (idle) return idle;
+
+    if (this.openPages < this.poolSize) {
+      this.openPages++;
+      try {
+        return await this.createPage();
+      } catch (error) {
+        this.openPages--;
+        throw error;
+      }
+    }
+
+    return new Promise<Page>((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  private releasePage(page: Page) {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve(page);
+    } else {
+      this.idlePages.push(page);
+    }
+  }
+
+  // Broken pages are closed and replaced so the pool never hands them out again
+  private async discardPage(page: Page) {
+    this.openPages--;
+    await page.close().catch(() => {});
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      this.openPages++;
+      this.createPage().then(waiter.resolve, (error) => {
+        this.openPages--;
+        waiter.reject(error);
+      });
+    }
   }
 
   async get(url: string): Promise<string> {
-    await this.ensurePoliteDelay();
+    // Fresh snapshots are served without launching the browser
+    const cached = await this.cache?.get(url);
+    if (cached) {
+      console.log(`[Fetcher] Cache hit: ${url} (fetched ${cached.fetchedAt})`);
+      return cached.html;
+    }
+
+    return this.rateLimiter.schedule(() => this.render(url));
+  }
+
+  private async render(url: string): Promise<string> {
     console.log(`[Fetcher] Requesting: ${url}`);
 
-    const browser = await this.ensureBrowser();
-    const page = await browser.newPage();
+    const startedAt = Date.now();
+    const page = await this.acquirePage();
+    let healthy = true;
 
     try {
-      await page.setUserAgent(
-        "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
-      );
+      blockedCounts.set(page, 0);
+      const navigationStart = Date.now();
 
-      await page.goto(url, {
-        waitUntil: "networkidle2",
+      const response = await page.goto(url, {
+        waitUntil: "domcontentloaded",
         timeout: this.timeout
       });
 
-      // Wait for Vue/Nuxt to render content
-      console.log("[Fetcher] Waiting for content to render...");
-      await page.waitForSelector("h1", { timeout: 10000 }).catch(() => {
-        console.log("[Fetcher] Warning: h1 not found, continuing anyway");
-      });
+      const status = response?.status() ?? 0;
+      if (status >= 400) {
+        throw errorFromStatus(status, url, response?.headers()["retry-after"]);
+      }
 
-      // Extra wait for dynamic content
-      await sleep(2000);
+      const renderStart = Date.now();
+
+      // Wait for Vue/Nuxt to render the unit content (or the not-found heading)
+      const renderComplete = await page.waitForFunction(
+        (selectors: string[]) => {
+          const heading = document.querySelector("h1")?.textContent || "";
+          return selectors.every(selector => document.querySelector(selector)) ||
+            /not found|404/i.test(heading);
+        },
+        { timeout: this.renderTimeout, polling: 100 },
+        this.contentSelectors
+      ).then(() => true, () => {
+        console.log("[Fetcher] Warning: unit content not fully rendered, continuing anyway");
+        return false;
+      });
 
+      const rendered = (await page.$("h1")) !== null;
       const html = await page.content();
-      console.log(`[Fetcher] Success: ${url} (${html.length} bytes rendered)`);
+      const doneAt = Date.now();
 
-      this.lastRequestAt = Date.now();
+      // The site answers unknown codes with a 200 and a client-rendered "not found" page
+      if (isNotFoundPage(html)) {
+        throw new NotFoundError("Site returned its page-not-found page", url, status);
+      }
+      if (!rendered && !hasUnitContent(html)) {
+        throw new RenderError("Page did not render any heading or unit content", url, status);
+      }
+
+      const timing: FetchTiming = {
+        url,
+        navigationMs: renderStart - navigationStart,
+        renderMs: doneAt - renderStart,
+        totalMs: doneAt - startedAt,
+        blockedRequests: blockedCounts.get(page) ?? 0
+      };
+      this.timings.push(timing);
+
+      console.log(
+        `[Fetcher] Success: ${url} (HTTP ${status}, ${html.length} bytes rendered, ` +
+        `nav ${timing.navigationMs}ms + render ${timing.renderMs}ms, ${timing.blockedRequests} requests blocked)`
+      );
+
+      // A half-rendered page is used for this run only, so the next run renders it again
+      if (renderComplete) {
+        await this.cache?.put(url, html);
+      }
       return html;
+    } catch (error: any) {
+      const fetchError = toFetchError(error, url);
+      healthy = !(fetchError instanceof RenderError || fetchError instanceof TimeoutError);
+      throw fetchError;
     } finally {
-      await page.close();
+      if (healthy) {
+        this.releasePage(page);
+      } else {
+        await this.discardPage(page);
+      }
     }
   }
 
+  async getAllPages(url: string): Promise<string[]> {
+    return this.rateLimiter.schedule(() => this.renderAllPages(url));
+  }
+
+  // Click through every paginated table (mint-pagination) and snapshot each page
+  private async renderAllPages(url: string): Promise<string[]> {
+    console.log(`[Fetcher] Requesting all pages: ${url}`);
+
+    const page = await this.acquirePage();
+    let healthy = true;
+
+    try {
+      const response = await page.goto(url, { waitUntil: "domcontentloaded", timeout: this.timeout });
+      const status = response?.status() ?? 0;
+      if (status >= 400) {
+        throw errorFromStatus(status, url, response?.headers()["retry-after"]);
+      }
+
+      await page.waitForSelector("table tbody tr", { timeout: this.renderTimeout }).catch(() => {
+        console.log("[Fetcher] Warning: no table rendered, continuing anyway");
+      });
+
+      const html = await page.content();
+      if (isNotFoundPage(html)) {
+        throw new NotFoundError("Site returned its page-not-found page", url, status);
+      }
+
+      const snapshots = [html];
+      const tableCount = await page.$$eval("nav.mint-pagination", navs => navs.length);
+
+      for (let i = 0; i < tableCount; i++) {
+        for (let n = 1; n < MAX_LISTING_PAGES; n++) {
+          // "Pagination currently on page 2 of 6"; the DOM click also works in hidden tabs
+          const label = await page.$$eval("nav.mint-pagination", (navs, index) => {
+            const nav = navs[index];
+            const label = nav?.getAttribute("aria-label") || "";
+            const match = label.match(/page (\d+) of (\d+)/i);
+            const next = nav?.querySelector<HTMLButtonElement>('button[aria-label="Go to next page"]');
+            if (!match || Number(match[1]) >= Number(match[2]) || !next || next.disabled) return null;
+            next.click();
+            return label;
+          }, i);
+          if (!label) break;
+
+          await page.waitForFunction(
+            (index: number, before: string) =>
+              document.querySelectorAll("nav.mint-pagination")[index]?.getAttribute("aria-label") !== before,
+            { timeout: this.renderTimeout, polling: 100 },
+            i,
+            label
+          );
+          snapshots.push(await page.content());
+        }
+      }
+
+      console.log(`[Fetcher] Success: ${url} (${snapshots.length} table pages)`);
+      return snapshots;
+    } catch (error: any) {
+      const fetchError = toFetchError(error, url);
+      healthy = !(fetchError instanceof RenderError || fetchError instanceof TimeoutError);
+      throw fetchError;
+    } finally {
+      if (healthy) {
+        this.releasePage(page);
+      } else {
+        await this.discardPage(page);
+      }
+    }
+  }
+
+  /**
+   * Per-page timings for every successful browser fetch in this run.
+   */
+  getTimings(): FetchTiming[] {
+    return [...this.timings];
+  }
+
   async close() {
+    if (this.timings.length > 0) {
+      const avg = (pick: (t: FetchTiming) => number) =>
+        Math.round(this.timings.reduce((sum, t) => sum + pick(t), 0) / this.timings.length);
+      console.log(
+        `[Fetcher] ${this.timings.length} pages rendered: avg nav ${avg(t => t.navigationMs)}ms, ` +
+        `avg render ${avg(t => t.renderMs)}ms, avg total ${avg(t => t.totalMs)}ms`
+      );
+    }
+
     if (this.browser) {
       console.log("[Fetcher] Closing browser...");
-      await this.browser.close();
+      const browser = await this.browser.catch(() => null);
       this.browser = null;
+      this.idlePages = [];
+      this.openPages = 0;
+      await browser?.close();
     }
   }
 }
 
-export default Fetcher;
\ No newline at end of file
+export default Fetcher;
@@ -0,0 +1,81 @@
+import axios, { AxiosInstance } from "axios";
+import { FetcherOptions } from "./fetcher.js";
+import { getSharedRateLimiter, RateLimiter } from "./utils/rateLimiter.js";
+import { PageSource } from "./pageSource.js";
+import { SnapshotCache } from "./services/snapshotCache.js";
+import { errorFromStatus, FetchError, NotFoundError, TimeoutError } from "./errors.js";
+import { isNotFoundPage } from "./parsers/pageDetection.js";
+
+// Convert axios failures into typed fetch errors
+function toFetchError(error: any, url: string): FetchError {
+  if (error instanceof FetchError) return error;
+
+  const status = error?.response?.status;
+  if (status) {
+    return errorFromStatus(status, url, error.response.headers?.["retry-after"]);
+  }
+  if (error?.code === "ECONNABORTED" || error?.code === "ETIMEDOUT") {
+    return new TimeoutError(`Request timed out: ${error.message}`, url);
+  }
+  return new FetchError(error?.message || String(error), url);
+}
+
+/**
+ * Static HTTP page source. Downloads the server-rendered HTML with axios
+ * instead of launching Chromium, so it works on machines that cannot run
+ * a headless browser.
+ */
+export class HttpFetcher implements PageSource {
+  private rateLimiter: RateLimiter;
+  private client: AxiosInstance;
+  private cache?: SnapshotCache;
+
+  constructor(opts?: FetcherOptions) {
+    this.rateLimiter = opts?.rateLimiter ?? getSharedRateLimiter();
+    this.cache = opts?.cache;
+    this.client = axios.create({
+      timeout: opts?.timeout ?? 30000,
+      responseType: "text",
+      headers: {
+        "User-Agent":
+          "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+        Accept: "text/html,application/xhtml+xml"
+      }
+    });
+  }
+
+  async get(url: string): Promise<string> {
+    const cached = await this.cache?.get(url);
+    if (cached) {
+      console.log(`[HttpFetcher] Cache hit: ${url} (fetched ${cached.fetchedAt})`);
+      return cached.html;
+    }
+
+    return this.rateLimiter.schedule(() => this.download(url));
+  }
+
+  private async download(url: string): Promise<string> {
+    console.log(`[HttpFetcher] Requesting: ${url}`);
+
+    try {
+      const response = await this.client.get<string>(url);
+      const html = String(response.data ?? "");
+
+      if (isNotFoundPage(html)) {
+        throw new NotFoundError("Site returned its page-not-found page", url, response.status);
+      }
+
+      console.log(`[HttpFetcher] Success: ${url} (HTTP ${response.status}, ${html.length} bytes)`);
+      await this.cache?.put(url, html);
+      return html;
+    } catch (error: any) {
+      throw toFetchError(error, url);
+    }
+  }
+
+  async close() {
+    // Nothing to release: axios keeps no long-lived resources
+  }
+}
+
+export default HttpFetcher;
@@ -1,7 +1,10 @@
 import { Crawler } from "./crawler.js";
-import { Fetcher } from "./fetcher.js";
+import { createPageSource, isFetchBackend } from "./pageSource.js";
+import { configureSharedRateLimiter } from "./utils/rateLimiter.js";
 import { ExportService } from "./services/exportService.js";
 import { ExcelExportService } from "./services/excelExportService.js";
+import { flattenEvidence, getEvidenceTree } from "./models/evidence.js";
+import { unitUrl } from "./siteUrls.js";
 import { promises as fs } from "fs";
 
 function parseArgs(): string[] {
@@ -9,17 +12,31 @@ function parseArgs(): string[] {
   if (args.length) return args;
   const env = process.env.START_URLS as string | undefined;
   if (env) return env.split(",").map((s: string) => s.trim()).filter(Boolean);
-  return ["https://training.gov.au/training/details/MARH013/unitdetails"];
+  return [unitUrl("MARH013")];
+}
+
+// FETCH_BACKEND=http skips Chromium and downloads the static HTML instead
+function parseBackend() {
+  const backend = process.env.FETCH_BACKEND;
+  if (!backend) return undefined;
+  if (!isFetchBackend(backend)) {
+    throw new Error(`Unknown FETCH_BACKEND "${backend}" (expected "browser" or "http")`);
+  }
+  return backend;
 }
 
 async function main() {
   const urls = parseArgs();
+  const backend = parseBackend();
+
+  // One request every 3 seconds
+  configureSharedRateLimiter({ requestsPerMinute: 20, burst: 1, maxConcurrency: 1 });
 
   // DEBUG: Save rendered HTML to file
   if (process.env.DEBUG_HTML) {
     console.log("DEBUG MODE: Saving rendered HTML to debug-rendered.html");
-    const fetcher = new Fetcher({
-      minDelayMs: 2000,
+    const fetcher = createPageSource({
+      backend,
       headless: true,
       timeout: 30000
     });
@@ -35,8 +52,8 @@ async function main() {
   console.log(`Starting scrape of ${urls.length} URL(s)...`);
   console.log(`URLs: ${urls.join(', ')}\n`);
 
-  const fetcher = new Fetcher({
-    minDelayMs: 3000,
+  const fetcher = createPageSource({
+    backend,
     headless: true,
     timeout: 30000
   });
@@ -52,6 +69,13 @@ async function main() {
       // Basic Info
       console.log(`\n📌 Status: ${item.status || 'N/A'} | Release: ${item.release || 'N/A'}`);
       console.log(`🔗 URL: ${item.url}`);
+      if (item.sectorPath || item.fieldOfEducation) {
+        const field = item.fieldOfEducation ? `${item.fieldOfEducation.code} ${item.fieldOfEducation.name}` : "N/A";
+        console.log(`🏷️  Sector: ${item.sectorPath?.join(" > ") || "N/A"} | Field of education: ${field}`);
+      }
+      if (item.releases?.length) {
+        console.log(`🗓️  Releases: ${item.releases.map(r => `${r.release}${r.date ? ` (${r.date})` : ""}`).join(", ")}`);
+      }
       
       // Supersession
       if (item.supersedes) {
@@ -60,6 +84,10 @@ async function main() {
       if (item.supersededBy) {
         console.log(`➡️  Superseded by: ${item.supersededBy.code}`);
       }
+      for (const m of item.mapping ?? []) {
+        const direction = m.direction === "supersedes" ? "Supersedes" : "Superseded by";
+        console.log(`   ${direction} ${m.code}: ${m.equivalence ?? "equivalence not stated"}${m.notes ? ` - ${m.notes}` : ""}`);
+      }
       
       // Prerequisites
       if (item.prerequisites && item.prerequisites.length > 0) {
@@ -74,27 +102,40 @@ async function main() {
           console.log(`     → ${el.performanceCriteria.length} performance criteria`);
         });
       }
+
+      if (item.parseWarnings && item.parseWarnings.length > 0) {
+        console.log(`\n⚠️  Parse warnings:`);
+        item.parseWarnings.forEach(warning => console.log(`  - ${warning}`));
+      }
       
       // Performance Evidence
-      if (item.performanceEvidence) {
-        const lines = item.performanceEvidence.split('\n');
-        console.log(`\n✅ Performance Evidence (${lines.length} items):`);
-        console.log(lines.slice(0, 5).map(l => `  ${l}`).join('\n'));
-        if (lines.length > 5) {
-          console.log(`  ... and ${lines.length - 5} more items`);
+      const peItems = flattenEvidence(getEvidenceTree(item, 'P'));
+      if (peItems.length > 0) {
+        console.log(`\n✅ Performance Evidence (${peItems.length} items):`);
+        console.log(peItems.slice(0, 5).map(({ node, level }) => `  ${'  '.repeat(level)}${node.id} ${node.text}`).join('\n'));
+        if (peItems.length > 5) {
+          console.log(`  ... and ${peItems.length - 5} more items`);
         }
       }
       
       // Knowledge Evidence
-      if (item.knowledgeEvidence) {
-        const lines = item.knowledgeEvidence.split('\n');
-        console.log(`\n📖 Knowledge Evidence (${lines.length} items):`);
-        console.log(lines.slice(0, 5).map(l => `  ${l}`).join('\n'));
-        if (lines.length > 5) {
-          console.log(`  ... and ${lines.length - 5} more items`);
+      const keItems = flattenEvidence(getEvidenceTree(item, 'K'));
+      if (keItems.length > 0) {
+        console.log(`\n📖 Knowledge Evidence (${keItems.length} items):`);
+        console.log(keItems.slice(0, 5).map(({ node, level }) => `  ${'  '.repeat(level)}${node.id} ${node.text}`).join('\n'));
+        if (keItems.length > 5) {
+          console.log(`  ... and ${keItems.length - 5} more items`);
         }
       }
       
+      // Range of Conditions
+      if (item.rangeOfConditions && item.rangeOfConditions.length > 0) {
+        console.log(`\n📐 Range of Conditions (${item.rangeOfConditions.length} variables):`);
+        item.rangeOfConditions.slice(0, 5).forEach(r => {
+          console.log(`  ${r.variable} (${r.values.length} values)`);
+        });
+      }
+      
       // Assessment Conditions
       if (item.assessmentConditions) {
         const preview = item.assessmentConditions.substring(0, 150);
@@ -102,9 +143,8 @@ async function main() {
       }
       
       // Foundation Skills
-      if (item.foundationSkills) {
-        const preview = item.foundationSkills.substring(0, 150);
-        console.log(`\n🔧 Foundation Skills: ${preview}${item.foundationSkills.length > 150 ? '...' : ''}`);
+      if (item.foundationSkills && item.foundationSkills.length > 0) {
+        console.log(`\n🔧 Foundation Skills (${item.foundationSkills.length}): ${item.foundationSkills.map(s => s.skill).join(', ')}`);
       }
       
       console.log("\n" + "=".repeat(80) + "\n");
@@ -0,0 +1,63 @@
+import { Classification, ClassificationCode, Uoc } from "./uoc.js";
+
+// ASCED broad fields of education, keyed by the first two digits of a field code
+const ASCED_BROAD_FIELDS: Record<string, string> = {
+  "01": "Natural and Physical Sciences",
+  "02": "Information Technology",
+  "03": "Engineering and Related Technologies",
+  "04": "Architecture and Building",
+  "05": "Agriculture, Environmental and Related Studies",
+  "06": "Health",
+  "07": "Education",
+  "08": "Management and Commerce",
+  "09": "Society and Culture",
+  "10": "Creative Arts",
+  "11": "Food, Hospitality and Personal Services",
+  "12": "Mixed Field Programmes"
+};
+
+const ASCED_SCHEME = /asced|field of education/i;
+const ANZSCO_SCHEME = /anzsco|occupation/i;
+
+/**
+ * "120505" -> { code: "12", name: "Mixed Field Programmes" }
+ */
+export function ascedBroadField(code: string): ClassificationCode | undefined {
+  const broad = code.trim().slice(0, 2);
+  const name = ASCED_BROAD_FIELDS[broad];
+  return name ? { code: broad, name } : undefined;
+}
+
+/**
+ * "Social Competence – Teamwork and Relationships" -> ["Social Competence", "Teamwork and Relationships"]
+ */
+export function parseSectorPath(text: string | undefined): string[] | undefined {
+  const levels = (text ?? "").split(/\s+[-–—]\s+|\n/).map(level => level.trim()).filter(Boolean);
+  return levels.length > 0 ? levels : undefined;
+}
+
+/**
+ * Field of education and occupations named in the Classifications table rows.
+ */
+export function classifyRows(rows: Classification[]): {
+  fieldOfEducation?: ClassificationCode;
+  occupations?: ClassificationCode[];
+} {
+  const field = rows.find(row => ASCED_SCHEME.test(row.scheme));
+  const occupations = rows
+    .filter(row => ANZSCO_SCHEME.test(row.scheme))
+    .map(row => ({ code: row.code, name: row.value }));
+
+  return {
+    fieldOfEducation: field ? { code: field.code, name: field.value } : undefined,
+    occupations: occupations.length > 0 ? occupations : undefined
+  };
+}
+
+/**
+ * Sector levels of a unit, split from `unitSector` for records written
+ * before `sectorPath` existed.
+ */
+export function getSectorPath(unit: Uoc): string[] {
+  return unit.sectorPath ?? parseSectorPath(unit.unitSector) ?? [];
+}
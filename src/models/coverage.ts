@@ -0,0 +1,64 @@
+import { Uoc } from "./uoc.js";
+
+// Fields whose coverage across a run shows whether the parser still understands the site
+export const COVERAGE_FIELDS = [
+  "code",
+  "title",
+  "release",
+  "elements",
+  "performanceEvidence",
+  "knowledgeEvidence",
+  "assessmentConditions"
+] as const;
+
+export type CoverageField = typeof COVERAGE_FIELDS[number];
+
+// Fields a good stored record must not lose when it is overwritten
+export const PROTECTED_FIELDS: CoverageField[] = [
+  "title",
+  "release",
+  "elements",
+  "performanceEvidence",
+  "knowledgeEvidence"
+];
+
+export type FieldCoverage = {
+  units: number;                             // Units the ratios were computed over
+  fields: Record<CoverageField, number>;     // Share of units with the field, 0..1
+};
+
+export function hasField(unit: Uoc, field: CoverageField): boolean {
+  switch (field) {
+    case "code":
+    case "title":
+      return !!unit[field] && unit[field] !== "Unknown";
+    case "elements":
+      return (unit.elements?.length ?? 0) > 0;
+    default:
+      return !!unit[field]?.trim();
+  }
+}
+
+export function computeCoverage(units: Uoc[]): FieldCoverage {
+  const fields = {} as Record<CoverageField, number>;
+  for (const field of COVERAGE_FIELDS) {
+    const count = units.filter(unit => hasField(unit, field)).length;
+    fields[field] = units.length > 0 ? count / units.length : 0;
+  }
+  return { units: units.length, fields };
+}
+
+// A field whose coverage fell sharply against the baseline
+export type DriftAlert = {
+  field: CoverageField;
+  baseline: number;
+  current: number;
+};
+
+/**
+ * Protected fields the previous record had that the new one lacks. A non-empty
+ * result means the new record is degraded and should not replace the old one.
+ */
+export function lostFields(previous: Uoc, next: Uoc): CoverageField[] {
+  return PROTECTED_FIELDS.filter(field => hasField(previous, field) && !hasField(next, field));
+}
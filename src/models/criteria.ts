@@ -0,0 +1,78 @@
+import { PerformanceCriterion, UocElement } from "./uoc.js";
+
+const PC_PATTERN = /^(\d+\.\d+)\.?\s+([\s\S]+)$/;
+const ELEMENT_PATTERN = /^(\d+)\.?\s+/;
+
+/**
+ * Split "1.2 Text" into its number and text. Unnumbered criteria keep an empty number.
+ */
+export function parseCriterion(text: string): PerformanceCriterion {
+  const match = text.trim().match(PC_PATTERN);
+  return match
+    ? { number: match[1], text: match[2].trim() }
+    : { number: "", text: text.trim() };
+}
+
+/**
+ * "1. Develop effective workplace relationships" -> "1"
+ */
+export function parseElementNumber(text: string): string | undefined {
+  return text.trim().match(ELEMENT_PATTERN)?.[1];
+}
+
+/**
+ * Structured criteria of an element, parsed from the strings for records
+ * written before `criteria` existed.
+ */
+export function getCriteria(element: UocElement): PerformanceCriterion[] {
+  return element.criteria ?? element.performanceCriteria.map(parseCriterion);
+}
+
+/**
+ * Report gaps, duplicates and misplaced numbers, e.g. 2.3 followed by 2.5.
+ */
+export function checkCriteriaNumbering(elements: UocElement[]): string[] {
+  const warnings: string[] = [];
+  const seenElements = new Set<string>();
+  let previousElement = 0;
+
+  for (const element of elements) {
+    const elementNumber = element.number ?? parseElementNumber(element.element);
+    const label = elementNumber ? `Element ${elementNumber}` : `Element "${element.element}"`;
+
+    if (elementNumber) {
+      if (seenElements.has(elementNumber)) {
+        warnings.push(`Duplicate element number ${elementNumber}`);
+      } else if (Number(elementNumber) !== previousElement + 1) {
+        warnings.push(`Element numbering jumps from ${previousElement || "start"} to ${elementNumber}`);
+      }
+      seenElements.add(elementNumber);
+      previousElement = Number(elementNumber);
+    }
+
+    const seenCriteria = new Set<string>();
+    let previousCriterion = 0;
+
+    for (const pc of getCriteria(element)) {
+      if (!pc.number) {
+        warnings.push(`${label}: criterion without a number: "${pc.text.slice(0, 60)}"`);
+        continue;
+      }
+
+      const [pcElement, pcIndex] = pc.number.split(".");
+      if (elementNumber && pcElement !== elementNumber) {
+        warnings.push(`${label}: criterion ${pc.number} does not belong to this element`);
+      }
+      if (seenCriteria.has(pc.number)) {
+        warnings.push(`${label}: duplicate criterion ${pc.number}`);
+      } else if (Number(pcIndex) !== previousCriterion + 1) {
+        const from = previousCriterion ? `${pcElement}.${previousCriterion}` : "start";
+        warnings.push(`${label}: criteria numbering jumps from ${from} to ${pc.number}`);
+      }
+      seenCriteria.add(pc.number);
+      previousCriterion = Number(pcIndex);
+    }
+  }
+
+  return warnings;
+}
@@ -0,0 +1,77 @@
+import { EvidenceNode, TextNode, Uoc } from "./uoc.js";
+
+export type EvidencePrefix = "K" | "P";
+
+/**
+ * Number a list tree: K1, K2, ... at the top level, K1.1, K1.2 below it.
+ */
+export function numberEvidence(nodes: TextNode[], prefix: string): EvidenceNode[] {
+  return nodes.map((node, i) => {
+    const id = `${prefix}${i + 1}`;
+    return { id, text: node.text, children: numberEvidence(node.children, `${id}.`) };
+  });
+}
+
+/**
+ * Render a tree as the bullet text stored in the string evidence fields:
+ * "•" for top-level items, "◦" and two spaces per level below.
+ */
+export function renderBullets(nodes: TextNode[], depth: number = 0): string[] {
+  const indent = "  ".repeat(depth);
+  const bullet = depth === 0 ? "•" : "◦";
+  return nodes.flatMap(node => [
+    `${indent}${bullet} ${node.text}`,
+    ...renderBullets(node.children, depth + 1)
+  ]);
+}
+
+/**
+ * Depth-first list of every node with its nesting level.
+ */
+export function flattenEvidence(nodes: EvidenceNode[], level: number = 0): { node: EvidenceNode; level: number }[] {
+  return nodes.flatMap(node => [{ node, level }, ...flattenEvidence(node.children, level + 1)]);
+}
+
+/**
+ * Rebuild a tree from the bullet text of records written before the tree
+ * existed. A plain line directly followed by bullets is the list's intro and
+ * is not numbered.
+ */
+export function evidenceTreeFromText(text: string, prefix: EvidencePrefix): EvidenceNode[] {
+  const lines = text.split("\n").filter(line => line.trim());
+  const roots: TextNode[] = [];
+  const stack: TextNode[][] = [roots];
+
+  lines.forEach((line, i) => {
+    const content = line.replace(/^[\s•◦]+/, "").trim();
+    const isBullet = /^\s*[•◦]/.test(line);
+
+    if (!isBullet) {
+      const next = lines[i + 1];
+      if (!next || !/^\s*[•◦]/.test(next)) roots.push({ text: content, children: [] });
+      stack.length = 1;
+      return;
+    }
+
+    const level = Math.floor((line.match(/^(\s*)/)?.[1].length || 0) / 2);
+    stack.length = Math.min(stack.length, level + 1);
+    const siblings = stack[stack.length - 1];
+    const node: TextNode = { text: content, children: [] };
+    siblings.push(node);
+    stack.push(node.children);
+  });
+
+  return numberEvidence(roots, prefix);
+}
+
+/**
+ * Knowledge ("K") or Performance ("P") evidence tree of a unit, falling back
+ * to the string field for older records.
+ */
+export function getEvidenceTree(unit: Uoc, prefix: EvidencePrefix): EvidenceNode[] {
+  const tree = prefix === "K" ? unit.knowledgeEvidenceTree : unit.performanceEvidenceTree;
+  if (tree) return tree;
+
+  const text = prefix === "K" ? unit.knowledgeEvidence : unit.performanceEvidence;
+  return text ? evidenceTreeFromText(text, prefix) : [];
+}
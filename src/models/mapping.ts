@@ -0,0 +1,14 @@
+import { UnitMapping, Uoc } from "./uoc.js";
+
+/**
+ * Mapping records of a unit, built from `supersedes`/`supersededBy` for
+ * records written before `mapping` existed (equivalence unknown).
+ */
+export function getMapping(unit: Uoc): UnitMapping[] {
+  if (unit.mapping) return unit.mapping;
+
+  const mapping: UnitMapping[] = [];
+  if (unit.supersedes) mapping.push({ direction: "supersedes", code: unit.supersedes.code });
+  if (unit.supersededBy) mapping.push({ direction: "supersededBy", code: unit.supersededBy.code });
+  return mapping;
+}
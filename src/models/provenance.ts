@@ -0,0 +1,36 @@
+import { Uoc } from "./uoc.js";
+
+// Where a parsed field came from
+export type FieldProvenance = {
+  field: string;        // e.g. "assessmentConditions"
+  strategy: string;     // e.g. "dl", "section", "bodyText"
+  fallback: number;     // Position in the field's strategy list; 0 is the preferred strategy
+  truncated: boolean;   // The value was cut to the strategy's maximum length
+  confidence: number;   // 0..1
+};
+
+// Fields below this confidence need a human to check them
+export const WEAK_CONFIDENCE = 0.6;
+
+export type ReviewEntry = {
+  code: string;
+  url: string;
+  fields: FieldProvenance[];
+};
+
+export function weakFields(unit: Uoc): FieldProvenance[] {
+  return (unit.provenance ?? []).filter(p => p.confidence < WEAK_CONFIDENCE);
+}
+
+/**
+ * A review entry for a unit with weak fields, undefined when every field is sound.
+ */
+export function reviewEntry(unit: Uoc): ReviewEntry | undefined {
+  const fields = weakFields(unit);
+  return fields.length > 0 ? { code: unit.code, url: unit.url, fields } : undefined;
+}
+
+// "assessmentConditions (bodyText, truncated, 0.2)"
+export function describeProvenance(p: FieldProvenance): string {
+  return `${p.field} (${p.strategy}${p.truncated ? ", truncated" : ""}, ${p.confidence})`;
+}
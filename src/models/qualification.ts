@@ -0,0 +1,24 @@
+// A unit listed in a qualification's packaging rules
+export type ComponentUnit = {
+  code: string;
+  title: string;
+};
+
+export type ElectiveGroup = {
+  name: string;         // e.g. "Group A Deck"; empty for electives listed without a group
+  units: ComponentUnit[];
+};
+
+export interface Qualification {
+  url: string;
+  code: string;
+  title: string;
+  status?: string;
+  release?: string;
+  packagingRules?: string;      // Rule text, e.g. "Total number of units = 12 ..."
+  coreUnits: ComponentUnit[];
+  electiveGroups: ElectiveGroup[];
+  unlabelledUnits?: ComponentUnit[];  // Units listed before any Core or Elective heading
+  parseWarnings?: string[];
+  lastFetchedAt: string;
+}
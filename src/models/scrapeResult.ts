@@ -1,13 +1,74 @@
+import { classifyError, FetchError, FetchErrorKind } from "../errors.js";
+import { ReviewEntry } from "./provenance.js";
+import { DriftAlert } from "./coverage.js";
+import { UnitDiff } from "./unitDiff.js";
+
 export interface ScrapeResult {
   success: string[];        // Successfully scraped unit codes
-  notFound: string[];       // Units that don't exist (404)
-  networkErrors: string[];  // Units that had network/timeout errors
+  notFound: string[];       // Units that don't exist (404 or the site's not-found page)
+  networkErrors: string[];  // Units that had network/timeout/rate-limit/HTTP errors
+  renderErrors: string[];   // Pages that loaded but never rendered content
   parsingErrors: string[];  // Units that scraped but failed to parse
+  degraded: string[];       // Units kept as stored because the new record lost fields
+  errors: UnitError[];      // Details for every failed unit
+  needsReview: ReviewEntry[]; // Scraped units with low-confidence fields
+  drift?: DriftAlert[];     // Fields whose coverage fell sharply against the baseline
+  changes: UnitDiff[];      // What changed in units whose content differs from the stored record
 }
 
 export interface UnitError {
   code: string;
   url: string;
   error: string;
+  kind: FetchErrorKind | "parse" | "degraded";
+  status?: number;
   timestamp: string;
 }
+
+export function createScrapeResult(): ScrapeResult {
+  return {
+    success: [],
+    notFound: [],
+    networkErrors: [],
+    renderErrors: [],
+    parsingErrors: [],
+    degraded: [],
+    errors: [],
+    needsReview: [],
+    changes: []
+  };
+}
+
+/**
+ * File a failed unit under the bucket that matches its error type.
+ */
+export function recordFailure(
+  result: ScrapeResult,
+  code: string,
+  url: string,
+  error: unknown,
+  kind: UnitError["kind"] = classifyError(error)
+): UnitError {
+  if (kind === "not-found") {
+    result.notFound.push(code);
+  } else if (kind === "render") {
+    result.renderErrors.push(code);
+  } else if (kind === "parse") {
+    result.parsingErrors.push(code);
+  } else if (kind === "degraded") {
+    result.degraded.push(code);
+  } else {
+    result.networkErrors.push(code);
+  }
+
+  const unitError: UnitError = {
+    code,
+    url,
+    error: (error as any)?.message || String(error),
+    kind,
+    status: error instanceof FetchError ? error.status : undefined,
+    timestamp: new Date().toISOString()
+  };
+  result.errors.push(unitError);
+  return unitError;
+}
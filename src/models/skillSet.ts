@@ -0,0 +1,12 @@
+import { ComponentUnit } from "./qualification.js";
+
+export interface SkillSet {
+  url: string;
+  code: string;            // e.g. "BSBSS00094"
+  title: string;
+  status?: string;
+  release?: string;
+  description?: string;    // Description / target area text
+  units: ComponentUnit[];  // Member units from the skill set requirements
+  lastFetchedAt: string;
+}
@@ -0,0 +1,16 @@
+// A component row from a training package's component listing
+export type PackageComponent = {
+  code: string;
+  title: string;
+  release?: string;
+  status?: string;        // Usage recommendation, e.g. "Current" or "Superseded"
+  superseded: boolean;    // Superseded or deleted
+};
+
+export interface TrainingPackage {
+  url: string;
+  code: string;           // e.g. "MAR"
+  title: string;
+  units: PackageComponent[];
+  lastFetchedAt: string;
+}
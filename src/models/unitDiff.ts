@@ -0,0 +1,194 @@
+import { Uoc } from "./uoc.js";
+import { getCriteria, parseElementNumber } from "./criteria.js";
+import { EvidencePrefix, flattenEvidence, getEvidenceTree } from "./evidence.js";
+
+// "renumbered": same text under a new number; "reworded": similar text, possibly also renumbered
+export type ChangeKind = "added" | "removed" | "reworded" | "renumbered";
+
+export type DiffItem = "title" | "element" | "criterion" | "performanceEvidence" | "knowledgeEvidence";
+
+export interface ItemChange {
+  item: DiffItem;
+  kind: ChangeKind;
+  element?: string;         // Element a criterion belongs to (its new number, or old one when removed)
+  beforeNumber?: string;
+  beforeText?: string;
+  afterNumber?: string;
+  afterText?: string;
+  similarity?: number;      // Word similarity of a reworded pair, 0..1
+}
+
+export interface UnitDiff {
+  code: string;
+  title: string;
+  fromRelease?: string;
+  toRelease?: string;
+  fromFetchedAt: string;
+  toFetchedAt: string;
+  changes: ItemChange[];
+}
+
+// Texts less alike than this are treated as one item removed and another added
+export const MIN_SIMILARITY = 0.5;
+
+type NumberedText = { number: string; text: string };
+
+type AlignedPair<T extends NumberedText> = { before?: T; after?: T; similarity: number };
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, " ").replace(/[\s.;:,]+$/, "").trim();
+
+const words = (text: string) => normalize(text).match(/[a-z0-9']+/g) ?? [];
+
+/**
+ * Dice coefficient over the words of two texts: 1 for the same words, 0 for
+ * none in common.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const left = words(a);
+  const right = words(b);
+  if (left.length === 0 && right.length === 0) return 1;
+
+  const counts = new Map<string, number>();
+  left.forEach(word => counts.set(word, (counts.get(word) ?? 0) + 1));
+  let common = 0;
+  for (const word of right) {
+    const count = counts.get(word) ?? 0;
+    if (count > 0) {
+      common++;
+      counts.set(word, count - 1);
+    }
+  }
+  return (2 * common) / (left.length + right.length);
+}
+
+/**
+ * Pair the items of two lists: identical texts first (whatever their number),
+ * then items under the same number whose texts are alike, then the most alike
+ * of what is left. Items without a partner are returned alone.
+ */
+export function alignItems<T extends NumberedText>(before: T[], after: T[], minSimilarity = MIN_SIMILARITY): AlignedPair<T>[] {
+  const pairs: AlignedPair<T>[] = [];
+  const left = new Set(before.map((_, i) => i));
+  const right = new Set(after.map((_, i) => i));
+
+  const pair = (i: number, j: number, similarity: number) => {
+    pairs.push({ before: before[i], after: after[j], similarity });
+    left.delete(i);
+    right.delete(j);
+  };
+
+  // Same text; prefer the partner under the same number when a text repeats
+  for (const i of [...left]) {
+    const same = [...right].filter(j => normalize(after[j].text) === normalize(before[i].text));
+    const j = same.find(j => after[j].number === before[i].number) ?? same[0];
+    if (j !== undefined) pair(i, j, 1);
+  }
+
+  // Same number, alike text
+  for (const i of [...left]) {
+    const j = [...right].find(j => before[i].number && after[j].number === before[i].number);
+    if (j === undefined) continue;
+    const similarity = textSimilarity(before[i].text, after[j].text);
+    if (similarity >= minSimilarity) pair(i, j, similarity);
+  }
+
+  // Most alike remaining texts, best match first
+  const candidates = [...left].flatMap(i => [...right].map(j => ({ i, j, similarity: textSimilarity(before[i].text, after[j].text) })))
+    .filter(c => c.similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity);
+  for (const { i, j, similarity } of candidates) {
+    if (left.has(i) && right.has(j)) pair(i, j, similarity);
+  }
+
+  left.forEach(i => pairs.push({ before: before[i], similarity: 0 }));
+  right.forEach(j => pairs.push({ after: after[j], similarity: 0 }));
+  return pairs;
+}
+
+// Changes between aligned pairs; unchanged pairs are left out
+function pairChanges(pairs: AlignedPair<NumberedText>[], item: DiffItem): ItemChange[] {
+  return pairs.flatMap((pair): ItemChange[] => {
+    const { before, after } = pair;
+    const texts = {
+      beforeNumber: before?.number || undefined,
+      beforeText: before?.text,
+      afterNumber: after?.number || undefined,
+      afterText: after?.text
+    };
+    if (!after) return [{ item, kind: "removed", ...texts }];
+    if (!before) return [{ item, kind: "added", ...texts }];
+    if (normalize(before.text) !== normalize(after.text)) {
+      return [{ item, kind: "reworded", ...texts, similarity: Math.round(pair.similarity * 100) / 100 }];
+    }
+    if (before.number !== after.number) return [{ item, kind: "renumbered", ...texts }];
+    return [];
+  });
+}
+
+const elementItems = (unit: Uoc) => (unit.elements ?? []).map(element => ({
+  number: element.number ?? parseElementNumber(element.element) ?? "",
+  text: element.element.replace(/^\d+\.?\s+/, "").trim(),
+  element
+}));
+
+const evidenceItems = (unit: Uoc, prefix: EvidencePrefix): NumberedText[] =>
+  flattenEvidence(getEvidenceTree(unit, prefix)).map(({ node }) => ({ number: node.id, text: node.text }));
+
+// Order of changes in a diff: by item, then by the number they carry
+const ITEM_ORDER: DiffItem[] = ["title", "element", "criterion", "performanceEvidence", "knowledgeEvidence"];
+
+const numberKey = (change: ItemChange) =>
+  (change.afterNumber ?? change.beforeNumber ?? "").replace(/\d+/g, n => n.padStart(4, "0"));
+
+/**
+ * What changed in a unit between two records of it: its title, elements,
+ * the performance criteria of each element, and performance and knowledge
+ * evidence items. Criteria are compared within the elements they belong to,
+ * so those of an added or removed element are not listed separately.
+ */
+export function diffUnits(before: Uoc, after: Uoc): UnitDiff {
+  const changes: ItemChange[] = [];
+
+  if (normalize(before.title) !== normalize(after.title)) {
+    const similarity = Math.round(textSimilarity(before.title, after.title) * 100) / 100;
+    changes.push({ item: "title", kind: "reworded", beforeText: before.title, afterText: after.title, similarity });
+  }
+
+  const elements = alignItems(elementItems(before), elementItems(after));
+  changes.push(...pairChanges(elements, "element"));
+
+  for (const pair of elements) {
+    if (!pair.before || !pair.after) continue;
+    const criteria = alignItems(getCriteria(pair.before.element), getCriteria(pair.after.element));
+    const element = pair.after.number || pair.before.number || undefined;
+    changes.push(...pairChanges(criteria, "criterion").map(change => ({ ...change, element })));
+  }
+
+  changes.push(...pairChanges(alignItems(evidenceItems(before, "P"), evidenceItems(after, "P")), "performanceEvidence"));
+  changes.push(...pairChanges(alignItems(evidenceItems(before, "K"), evidenceItems(after, "K")), "knowledgeEvidence"));
+
+  changes.sort((a, b) =>
+    ITEM_ORDER.indexOf(a.item) - ITEM_ORDER.indexOf(b.item) || numberKey(a).localeCompare(numberKey(b)));
+
+  return {
+    code: after.code,
+    title: after.title,
+    fromRelease: before.release,
+    toRelease: after.release,
+    fromFetchedAt: before.lastFetchedAt,
+    toFetchedAt: after.lastFetchedAt,
+    changes
+  };
+}
+
+const ITEM_LABELS: Record<DiffItem, string> = {
+  title: "Title",
+  element: "Element",
+  criterion: "Performance criterion",
+  performanceEvidence: "Performance evidence",
+  knowledgeEvidence: "Knowledge evidence"
+};
+
+export function itemLabel(item: DiffItem): string {
+  return ITEM_LABELS[item];
+}
@@ -1,6 +1,73 @@
+import { FieldProvenance } from "./provenance.js";
+
+// A performance criterion, e.g. { number: "1.2", text: "Clarify ..." }
+export type PerformanceCriterion = {
+  number: string;   // Empty when the page gave no number
+  text: string;
+};
+
 export type UocElement = {
+  number?: string;                      // Element number, e.g. "1"
   element: string;
-  performanceCriteria: string[];
+  performanceCriteria: string[];        // "1.2 Text" strings, kept for compatibility
+  criteria?: PerformanceCriterion[];
+};
+
+// A list item with any nested sub-items
+export type TextNode = {
+  text: string;
+  children: TextNode[];
+};
+
+// A numbered evidence item: K1, K1.2, P3.1, ...
+export type EvidenceNode = {
+  id: string;
+  text: string;
+  children: EvidenceNode[];
+};
+
+// One row of the Range of Conditions / Range Statement
+export type RangeVariable = {
+  variable: string;   // e.g. "Vessel types may include:"
+  values: TextNode[];
+};
+
+// One row of the Foundation Skills table
+export type FoundationSkill = {
+  skill: string;        // e.g. "Reading"
+  pcRefs: string[];     // Performance criteria the skill applies to, e.g. ["1.1", "1.2"]
+  description: string;
+};
+
+// One release of a unit, from the Releases table and the modification history
+export type UocRelease = {
+  release: string;      // e.g. "2"
+  date?: string;        // As shown on the site, e.g. "19/Oct/2020"
+  comments?: string;    // Modification history comments
+};
+
+// One row of the Mapping table: a unit this one supersedes or is superseded by
+export type UnitMapping = {
+  direction: "supersedes" | "supersededBy";
+  code: string;                                   // Counterpart unit
+  title?: string;
+  release?: string;                               // Counterpart release, when the page names one
+  equivalence?: "Equivalent" | "Not equivalent";  // Undefined when the page does not say
+  notes?: string;
+  date?: string;                                  // As shown on the site, e.g. "18/Oct/2020"
+};
+
+// One row of the Classifications table
+export type Classification = {
+  scheme: string;   // e.g. "ASCED Module/Unit of Competency Field of Education Identifier"
+  code: string;     // e.g. "120505"
+  value: string;    // e.g. "Work Practices Programmes"
+};
+
+// A code with its name, e.g. an ASCED field of education or an ANZSCO occupation
+export type ClassificationCode = {
+  code: string;
+  name: string;
 };
 
 export interface Uoc {
@@ -9,17 +76,30 @@ export interface Uoc {
   title: string;
   status?: string;
   release?: string;
+  releases?: UocRelease[];   // Release history, newest first
   application?: string;
   unitSector?: string;
+  sectorPath?: string[];                  // Unit sector split into its levels, e.g. ["Social Competence", "Teamwork and Relationships"]
+  fieldOfEducation?: ClassificationCode;  // ASCED field of education
+  occupations?: ClassificationCode[];     // ANZSCO occupation codes
+  classifications?: Classification[];     // Every row of the Classifications table
   licensingOrRegulatoryInfo?: string;
   prerequisites?: string[];
   elements?: UocElement[];
-  foundationSkills?: string;
+  foundationSkills?: FoundationSkill[];
+  foundationSkillsText?: string;  // Flattened form of the section, kept for compatibility
   assessmentConditions?: string;
-  performanceEvidence?: string;
+  performanceEvidence?: string;   // Bullet-text rendering of the section, kept for compatibility
   knowledgeEvidence?: string;
+  performanceEvidenceTree?: EvidenceNode[];
+  knowledgeEvidenceTree?: EvidenceNode[];
+  rangeOfConditions?: RangeVariable[];
+  parseWarnings?: string[];  // Structural problems noticed while parsing, e.g. numbering gaps
+  mapping?: UnitMapping[];
   supersededBy: { code: string; url: string } | null;
   supersedes: { code: string; url: string } | null;
+  parserProfile?: string;    // Parser profile used, e.g. "tga@2025.1"
+  provenance?: FieldProvenance[];  // How each text field was found, with a confidence score
   lastFetchedAt: string;
 }
 
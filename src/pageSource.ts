@@ -0,0 +1,50 @@
+import { Fetcher, FetcherOptions } from "./fetcher.js";
+import { HttpFetcher } from "./httpFetcher.js";
+import { ResilienceOptions, ResilientPageSource } from "./resilientPageSource.js";
+
+/**
+ * Anything that can turn a training.gov.au URL into page HTML.
+ * Crawler and the sync commands only depend on this, so the backend
+ * (headless browser or plain HTTP) can be swapped by config.
+ */
+export interface PageSource {
+  get(url: string): Promise<string>;
+  close(): Promise<void>;
+  /**
+   * Render a page with paginated tables and return one HTML snapshot per
+   * table page. Backends that cannot paginate leave this out.
+   */
+  getAllPages?(url: string): Promise<string[]>;
+}
+
+export type FetchBackend = "browser" | "http";
+
+export const FETCH_BACKENDS: FetchBackend[] = ["browser", "http"];
+
+export type PageSourceOptions = FetcherOptions & ResilienceOptions & {
+  backend?: FetchBackend;
+};
+
+export function isFetchBackend(value: string): value is FetchBackend {
+  return (FETCH_BACKENDS as string[]).includes(value);
+}
+
+function createBackend(backend: FetchBackend, opts?: PageSourceOptions): PageSource {
+  switch (backend) {
+    case "http":
+      return new HttpFetcher(opts);
+    case "browser":
+      return new Fetcher(opts);
+    default:
+      throw new Error(`Unknown fetch backend: ${backend}`);
+  }
+}
+
+/**
+ * Create the page source for the configured backend, wrapped with in-run
+ * retries and a circuit breaker. Defaults to the Puppeteer-based Fetcher.
+ */
+export function createPageSource(opts?: PageSourceOptions): PageSource {
+  const source = createBackend(opts?.backend ?? "browser", opts);
+  return new ResilientPageSource(source, opts);
+}
@@ -0,0 +1,36 @@
+import { ComponentUnit } from "../models/qualification.js";
+
+// "MARB027 Perform basic deck operations" or "MARB027 - Perform ..."
+const UNIT_LINE = /^([A-Z]{3}[A-Z0-9]{2,9})\s*[-–—:]?\s+(.+)$/;
+export const UNIT_CODE = /^[A-Z]{3}[A-Z0-9]*\d{3}[A-Z0-9]*$/;
+
+// Qualification codes: package prefix and five digits, e.g. MAR20318. UNIT_CODE matches these too
+export const QUALIFICATION_CODE = /^[A-Z]{3}\d{5}$/;
+
+// Skill set codes: package prefix, "SS" and five digits, e.g. BSBSS00094
+export const SKILL_SET_CODE = /^[A-Z]{3}SS\d{5}$/;
+
+export function isSkillSetCode(code: string): boolean {
+  return SKILL_SET_CODE.test(code);
+}
+
+/**
+ * A unit of competency code, not a qualification or skill set code that
+ * happens to fit the same pattern.
+ */
+export function isUnitCode(code: string): boolean {
+  return UNIT_CODE.test(code) && !isSkillSetCode(code) && !QUALIFICATION_CODE.test(code);
+}
+
+export function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * A unit listed as "CODE Title" in packaging rules or skill set requirements.
+ */
+export function parseUnitLine(text: string): ComponentUnit | undefined {
+  const match = normalize(text).match(UNIT_LINE);
+  if (!match || !isUnitCode(match[1])) return undefined;
+  return { code: match[1], title: match[2].trim() };
+}
@@ -0,0 +1,103 @@
+import * as cheerio from "cheerio";
+import { PackageComponent, TrainingPackage } from "../models/trainingPackage.js";
+import { isUnitCode, normalize } from "./componentUnits.js";
+
+// Heading of the section a listing table sits in
+function tableHeading($: cheerio.CheerioAPI, $table: cheerio.Cheerio<any>): string {
+  const $container = $table.closest(".mint-table").length ? $table.closest(".mint-table") : $table;
+  const direct = $container.prevAll("h2, h3").first();
+  if (direct.length) return normalize(direct.text());
+  return normalize($container.prevAll().find("h2, h3").last().text());
+}
+
+// Cell values keyed by column name; mint tables repeat the name in a .mobile-heading span
+function readRow($: cheerio.CheerioAPI, $tr: cheerio.Cheerio<any>, headers: string[]): Record<string, string> {
+  const row: Record<string, string> = {};
+  $tr.children("td").each((i: number, td: any) => {
+    const $td = $(td);
+    const name = normalize($td.find(".mobile-heading").first().text()) || headers[i] || "";
+    const value = normalize($td.clone().find(".mobile-heading").remove().end().text());
+    if (name) row[name.toLowerCase()] = value;
+  });
+  return row;
+}
+
+function isUnitRow(code: string, heading: string): boolean {
+  if (!isUnitCode(code)) return false;
+  return !/qualification|skill set|accredited|course/i.test(heading);
+}
+
+/**
+ * Parse the component listing of a training package page. Takes every
+ * snapshot of a paginated listing (see PageSource.getAllPages) and merges
+ * the unit rows, dropping duplicates.
+ */
+export function parsePackageListing(htmls: string[], url: string): TrainingPackage {
+  const units = new Map<string, PackageComponent>();
+  let code = "";
+  let title = "";
+
+  for (const html of htmls) {
+    const $ = cheerio.load(html);
+
+    if (!code) {
+      const hero = $(".heroSubheading .title");
+      const strong = normalize(hero.find("strong").first().text());
+      if (strong) {
+        code = strong;
+        title = normalize(hero.text()).replace(strong, "").replace(/^[\s-–—]+/, "");
+      } else {
+        const h1 = normalize($("h1").first().text());
+        const match = h1.match(/^([A-Z]{2,4})\s*[-–—]?\s*(.+)$/);
+        if (match) {
+          code = match[1];
+          title = match[2];
+        }
+      }
+    }
+
+    $("table").each((_: number, table: any) => {
+      const $table = $(table);
+      const heading = tableHeading($, $table);
+      const headers = $table.find("thead th").map((_: number, th: any) =>
+        normalize($(th).clone().find(".visually-hidden, .material-icons").remove().end().text())
+      ).get();
+
+      $table.find("tbody tr").each((_: number, tr: any) => {
+        const row = readRow($, $(tr), headers);
+        const unitCode = row["code"];
+        if (!unitCode || !isUnitRow(unitCode, heading) || units.has(unitCode)) return;
+
+        const status = row["usage recommendation"] || row["status"] || undefined;
+        units.set(unitCode, {
+          code: unitCode,
+          title: row["title"] || "",
+          release: row["release"] || undefined,
+          status,
+          superseded: /superseded|deleted/i.test(status || "") || /superseded|deleted/i.test(heading)
+        });
+      });
+    });
+  }
+
+  return {
+    url,
+    code: code || decodeURIComponent(url.split("/").filter(Boolean).pop() || ""),
+    title,
+    units: [...units.values()],
+    lastFetchedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * True when a snapshot shows a paginated table with more pages than were read.
+ */
+export function hasUnreadPages(htmls: string[]): boolean {
+  const $ = cheerio.load(htmls[0] ?? "");
+  const totals = $("nav.mint-pagination").map((_: number, nav: any) => {
+    const match = ($(nav).attr("aria-label") || "").match(/page \d+ of (\d+)/i);
+    return match ? Number(match[1]) : 1;
+  }).get();
+  const expected = totals.reduce((sum, pages) => sum + pages - 1, 1);
+  return htmls.length < expected;
+}
@@ -0,0 +1,35 @@
+import * as cheerio from "cheerio";
+
+const NOT_FOUND_PATTERN = /\b(page not found|404|could not be found|does not exist|no longer available)\b/i;
+
+/**
+ * Detect training.gov.au's "page not found" page, which is served with a
+ * 200 status by the client-side router. Only the page title and main
+ * heading are checked, so unit text that happens to mention "not found"
+ * or "404" is never mistaken for a missing page.
+ */
+export function isNotFoundPage(html: string): boolean {
+  const $ = cheerio.load(html);
+
+  // A rendered unit header means this is a real component page
+  if ($(".heroSubheading .title strong").text().trim()) return false;
+
+  const heading = $("h1").first().text().trim();
+  const title = $("title").first().text().trim();
+  return NOT_FOUND_PATTERN.test(heading) || NOT_FOUND_PATTERN.test(title);
+}
+
+/**
+ * True when the page has rendered a unit of competency: the hero code/title
+ * or the elements and performance criteria table the parser reads.
+ */
+export function hasUnitContent(html: string): boolean {
+  const $ = cheerio.load(html);
+
+  if ($(".heroSubheading .title strong").text().trim()) return true;
+
+  return $("table").toArray().some((table: any) => {
+    const text = $(table).find("th").text().toLowerCase();
+    return text.includes("elements") && text.includes("performance criteria");
+  });
+}
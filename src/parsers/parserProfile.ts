@@ -0,0 +1,358 @@
+import * as cheerio from "cheerio";
+import { readFileSync } from "fs";
+import tgaProfile from "./profiles/tga.json" with { type: "json" };
+import { FieldProvenance } from "../models/provenance.js";
+
+/**
+ * Parser profiles hold the selectors and labels the unit parser reads, so a
+ * site redesign can be handled by editing JSON. Each field lists strategies
+ * that are tried in order until one returns text.
+ */
+
+export const PROFILE_SCHEMA_VERSION = 1;
+
+export type FieldStrategy = (
+  // Text of the first element matching `selector` (or, with `values`, the last whose text is one of them)
+  | {
+      strategy: "selector";
+      selector: string;
+      scope?: "parent";       // Read the matched element's parent instead
+      remove?: string;        // Drop these descendants before reading the text
+      values?: string[];      // Accepted values, matched case-insensitively
+      pattern?: string;
+      group?: number;
+      template?: string;      // e.g. "Release $1"
+    }
+  // <dd> following the <dt> with this label
+  | { strategy: "dl"; label: string }
+  // Paragraphs (and optionally lists) that follow a heading, up to the next heading
+  | { strategy: "section"; heading: string; headingSelector?: string; until?: string; lists?: boolean }
+  // Paragraphs nested anywhere in a heading's content, tables excluded
+  | { strategy: "sectionParagraphs"; heading: string }
+  // A regular expression over the page's body text
+  | { strategy: "bodyText"; pattern: string; group?: number; maxLength?: number }
+) & { confidence?: number };  // Overrides the strategy's default confidence
+
+// How much a value found by each strategy can be trusted, unless the profile says otherwise
+export const DEFAULT_CONFIDENCE: Record<FieldStrategy["strategy"], number> = {
+  selector: 1,
+  dl: 1,
+  section: 0.9,
+  sectionParagraphs: 0.8,
+  bodyText: 0.4
+};
+
+export type ProfileField =
+  | "code" | "title" | "status" | "release" | "application" | "unitSector"
+  | "prerequisites" | "foundationSkillsText" | "assessmentConditions" | "licensing";
+
+export type EvidenceSectionProfile = {
+  label: string;              // <dt> label
+  headingKeywords: string[];  // Every keyword appears in the heading
+  contentKeywords?: string[]; // Any keyword appears in the section body
+};
+
+export interface ParserProfile {
+  schemaVersion: number;
+  name: string;
+  version: string;
+  description?: string;
+  selectors: {
+    headings: string;
+    evidenceHeadings: string;
+    tableCellNoise: string;
+    unitLink: string;
+    tooltip: string;
+  };
+  fields: Record<ProfileField, FieldStrategy[]>;
+  sections: {
+    elements: { keywords: string[]; skipRow: string };
+    performanceEvidence: EvidenceSectionProfile;
+    knowledgeEvidence: EvidenceSectionProfile;
+    foundationSkills: { headings: string[] };
+    rangeOfConditions: { headings: string[] };
+  };
+  // Lower-case column headers that identify each table
+  tables: {
+    releases: string[];
+    modificationHistory: string[];
+    mapping: string[];
+    classifications: string[];
+  };
+}
+
+export class ProfileError extends Error {
+  readonly problems: string[];
+
+  constructor(source: string, problems: string[]) {
+    super(`Invalid parser profile ${source}:\n  - ${problems.join("\n  - ")}`);
+    this.name = "ProfileError";
+    this.problems = problems;
+  }
+}
+
+const FIELDS: ProfileField[] = [
+  "code", "title", "status", "release", "application", "unitSector",
+  "prerequisites", "foundationSkillsText", "assessmentConditions", "licensing"
+];
+
+const isString = (value: unknown): value is string => typeof value === "string" && value.length > 0;
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.length > 0 && value.every(isString);
+
+function checkSelector(problems: string[], where: string, selector: unknown) {
+  if (!isString(selector)) {
+    problems.push(`${where}: selector is missing`);
+    return;
+  }
+  try {
+    cheerio.load("")(selector);
+  } catch (error: any) {
+    problems.push(`${where}: invalid selector "${selector}" (${error.message})`);
+  }
+}
+
+function checkPattern(problems: string[], where: string, pattern: unknown) {
+  if (pattern === undefined) return;
+  try {
+    new RegExp(pattern as string);
+  } catch (error: any) {
+    problems.push(`${where}: invalid pattern (${error.message})`);
+  }
+}
+
+function checkStrategy(problems: string[], where: string, s: any) {
+  if (s?.confidence !== undefined && !(typeof s.confidence === "number" && s.confidence >= 0 && s.confidence <= 1)) {
+    problems.push(`${where}: confidence must be a number from 0 to 1`);
+  }
+  switch (s?.strategy) {
+    case "selector":
+      checkSelector(problems, where, s.selector);
+      if (s.remove !== undefined) checkSelector(problems, `${where}.remove`, s.remove);
+      if (s.scope !== undefined && s.scope !== "parent") problems.push(`${where}: scope must be "parent"`);
+      if (s.values !== undefined && !isStringList(s.values)) problems.push(`${where}: values must be a list of strings`);
+      checkPattern(problems, where, s.pattern);
+      break;
+    case "dl":
+      if (!isString(s.label)) problems.push(`${where}: label is missing`);
+      break;
+    case "section":
+      if (!isString(s.heading)) problems.push(`${where}: heading is missing`);
+      if (s.headingSelector !== undefined) checkSelector(problems, `${where}.headingSelector`, s.headingSelector);
+      if (s.until !== undefined) checkSelector(problems, `${where}.until`, s.until);
+      break;
+    case "sectionParagraphs":
+      if (!isString(s.heading)) problems.push(`${where}: heading is missing`);
+      break;
+    case "bodyText":
+      if (!isString(s.pattern)) problems.push(`${where}: pattern is missing`);
+      checkPattern(problems, where, s.pattern);
+      break;
+    default:
+      problems.push(`${where}: unknown strategy "${s?.strategy}"`);
+  }
+}
+
+/**
+ * Check a parsed profile and return it typed, or throw a ProfileError listing every problem.
+ */
+export function validateProfile(raw: any, source = "(inline)"): ParserProfile {
+  const problems: string[] = [];
+
+  if (raw?.schemaVersion !== PROFILE_SCHEMA_VERSION) {
+    problems.push(`schemaVersion must be ${PROFILE_SCHEMA_VERSION} (got ${raw?.schemaVersion})`);
+  }
+  if (!isString(raw?.name)) problems.push("name is missing");
+  if (!isString(raw?.version)) problems.push("version is missing");
+
+  for (const key of ["headings", "evidenceHeadings", "tableCellNoise", "unitLink", "tooltip"]) {
+    checkSelector(problems, `selectors.${key}`, raw?.selectors?.[key]);
+  }
+
+  for (const field of FIELDS) {
+    const strategies = raw?.fields?.[field];
+    if (!Array.isArray(strategies) || strategies.length === 0) {
+      problems.push(`fields.${field} needs at least one strategy`);
+      continue;
+    }
+    strategies.forEach((s: any, i: number) => checkStrategy(problems, `fields.${field}[${i}]`, s));
+  }
+
+  const sections = raw?.sections;
+  if (!isStringList(sections?.elements?.keywords)) problems.push("sections.elements.keywords is missing");
+  if (!isString(sections?.elements?.skipRow)) problems.push("sections.elements.skipRow is missing");
+  for (const key of ["performanceEvidence", "knowledgeEvidence"]) {
+    if (!isString(sections?.[key]?.label)) problems.push(`sections.${key}.label is missing`);
+    if (!isStringList(sections?.[key]?.headingKeywords)) problems.push(`sections.${key}.headingKeywords is missing`);
+  }
+  for (const key of ["foundationSkills", "rangeOfConditions"]) {
+    if (!isStringList(sections?.[key]?.headings)) problems.push(`sections.${key}.headings is missing`);
+  }
+
+  for (const key of ["releases", "modificationHistory", "mapping", "classifications"]) {
+    if (!isStringList(raw?.tables?.[key])) problems.push(`tables.${key} needs a list of column headers`);
+  }
+
+  if (problems.length > 0) throw new ProfileError(source, problems);
+  return raw as ParserProfile;
+}
+
+/**
+ * Read and validate a profile from a JSON file.
+ */
+export function loadParserProfile(file: string): ParserProfile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, "utf-8"));
+  } catch (error: any) {
+    throw new ProfileError(file, [error.message]);
+  }
+  return validateProfile(raw, file);
+}
+
+export const DEFAULT_PROFILE: ParserProfile = validateProfile(tgaProfile, "profiles/tga.json");
+
+let activeProfile: ParserProfile | undefined;
+
+/**
+ * The profile used when none is passed: the file named by PARSER_PROFILE, else the built-in one.
+ */
+export function getActiveProfile(): ParserProfile {
+  if (!activeProfile) {
+    const file = process.env.PARSER_PROFILE;
+    activeProfile = file ? loadParserProfile(file) : DEFAULT_PROFILE;
+  }
+  return activeProfile;
+}
+
+// "tga@2025.1", recorded on every parsed unit
+export function profileId(profile: ParserProfile): string {
+  return `${profile.name}@${profile.version}`;
+}
+
+// ============ Strategy runner ============
+
+const collapse = (text: string) => text.replace(/\s+/g, " ").trim();
+
+function findHeading($: cheerio.CheerioAPI, selector: string, heading: string): cheerio.Cheerio<any> {
+  return $(selector).filter((_: number, el: any) =>
+    $(el).text().trim().toLowerCase() === heading.toLowerCase()
+  ).first();
+}
+
+type StrategyResult = { text: string; truncated?: boolean };
+
+function runStrategy($: cheerio.CheerioAPI, profile: ParserProfile, s: FieldStrategy): StrategyResult | undefined {
+  switch (s.strategy) {
+    case "selector": {
+      const readText = (el: any) => {
+        let $el = $(el);
+        if (s.scope === "parent") $el = $el.parent();
+        if (s.remove) $el = $el.clone().find(s.remove).remove().end();
+        return $el.text().trim();
+      };
+
+      let text: string | undefined;
+      if (s.values) {
+        $(s.selector).each((_: number, el: any) => {
+          const value = readText(el).toLowerCase();
+          text = s.values!.find(v => v.toLowerCase() === value) ?? text;
+        });
+      } else {
+        const el = $(s.selector).first();
+        text = el.length ? readText(el.get(0)) : undefined;
+      }
+      if (!text) return undefined;
+      if (!s.pattern) return { text };
+
+      const match = text.match(new RegExp(s.pattern, "i"));
+      if (!match) return undefined;
+      const value = match[s.group ?? 0];
+      const result = s.template ? s.template.replace(/\$(\d)/g, (_, n) => match[Number(n)] ?? "") : value?.trim();
+      return result ? { text: result } : undefined;
+    }
+
+    case "dl": {
+      const dt = $("dt").filter((_: number, el: any) => $(el).text().trim().toLowerCase() === s.label.toLowerCase()).first();
+      if (!dt.length) return undefined;
+      const text = dt.next("dd").text().trim();
+      return text ? { text } : undefined;
+    }
+
+    case "section": {
+      const header = findHeading($, s.headingSelector ?? profile.selectors.headings, s.heading);
+      if (!header.length) return undefined;
+
+      const until = s.until ?? profile.selectors.headings;
+      const parts: string[] = [];
+      let current = header.next();
+      while (current.length && !current.is(until)) {
+        if (current.is("p")) {
+          const text = current.text().trim();
+          if (text) parts.push(text);
+        } else if (s.lists && current.is("ul, ol")) {
+          const items = current.find("li").map((_: number, li: any) => "• " + $(li).text().trim()).get();
+          if (items.length) parts.push(items.join("\n"));
+        }
+        current = current.next();
+      }
+      return parts.length > 0 ? { text: parts.join("\n\n") } : undefined;
+    }
+
+    case "sectionParagraphs": {
+      const header = findHeading($, profile.selectors.headings, s.heading);
+      if (!header.length) return undefined;
+
+      const content = header.nextUntil(profile.selectors.headings);
+      const texts = content.find("p").add(content.filter("p"))
+        .filter((_: number, p: any) => $(p).parents("table").length === 0)
+        .map((_: number, p: any) => collapse($(p).text())).get()
+        .filter(Boolean);
+      return texts.length > 0 ? { text: texts.join("\n") } : undefined;
+    }
+
+    case "bodyText": {
+      const match = $("body").text().match(new RegExp(s.pattern, "i"));
+      const value = match?.[s.group ?? 0];
+      const text = value ? collapse(value) : "";
+      if (!text) return undefined;
+      const truncated = s.maxLength !== undefined && text.length > s.maxLength;
+      return { text: truncated ? text.substring(0, s.maxLength) : text, truncated };
+    }
+  }
+}
+
+/**
+ * Confidence of a value found by a strategy; truncated values count for half.
+ */
+export function strategyConfidence(strategy: FieldStrategy, truncated = false): number {
+  const confidence = strategy.confidence ?? DEFAULT_CONFIDENCE[strategy.strategy];
+  return truncated ? confidence / 2 : confidence;
+}
+
+/**
+ * Run a field's strategies in order and return the first text found. When a
+ * provenance list is given, the winning strategy is recorded in it.
+ */
+export function readField(
+  $: cheerio.CheerioAPI,
+  profile: ParserProfile,
+  field: ProfileField,
+  provenance?: FieldProvenance[]
+): string | undefined {
+  const strategies = profile.fields[field];
+  for (let i = 0; i < strategies.length; i++) {
+    const result = runStrategy($, profile, strategies[i]);
+    if (!result) continue;
+
+    const truncated = result.truncated ?? false;
+    provenance?.push({
+      field,
+      strategy: strategies[i].strategy,
+      fallback: i,
+      truncated,
+      confidence: strategyConfidence(strategies[i], truncated)
+    });
+    return result.text;
+  }
+  return undefined;
+}
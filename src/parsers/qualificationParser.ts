@@ -0,0 +1,139 @@
+import * as cheerio from "cheerio";
+import { ComponentUnit, ElectiveGroup, Qualification } from "../models/qualification.js";
+import { extractCodeAndTitle, extractStatus } from "./uocParser.js";
+import { isUnitCode, normalize, parseUnitLine } from "./componentUnits.js";
+
+// Headings inside the packaging rules: h3-h6, bold-only paragraphs and "Core units"/"Group A" lines
+function isHeading($: cheerio.CheerioAPI, $el: cheerio.Cheerio<any>, text: string): boolean {
+  if ($el.is("h3, h4, h5, h6")) return true;
+  const bold = normalize($el.find("strong, b").text());
+  if (bold && bold === text) return true;
+  return /^(core|elective)( units?)?:?$/i.test(text) || /^group [A-Z0-9]+\b/i.test(text);
+}
+
+/**
+ * Parse a qualification page (/training/details/{code}/qualdetails): header
+ * details, the packaging rule text, and the core and elective units listed
+ * under the packaging rules.
+ */
+export function parseQualificationHtml(html: string, url: string): Qualification {
+  const $ = cheerio.load(html);
+  const { code, title } = extractCodeAndTitle($);
+  const { status, release } = extractStatus($);
+
+  const header = $("h2, h3").filter((_: number, el: any) =>
+    $(el).text().trim().toLowerCase().includes("packaging rules")
+  ).first();
+
+  const coreUnits: ComponentUnit[] = [];
+  const electiveGroups: ElectiveGroup[] = [];
+  const unlabelledUnits: ComponentUnit[] = [];
+  const rules: string[] = [];
+
+  let section: "core" | "elective" | undefined;
+  let group: ElectiveGroup | undefined;
+
+  const addUnit = (unit: ComponentUnit) => {
+    // Not yet under a Core or Elective heading: neither can be assumed
+    if (!section) {
+      if (!unlabelledUnits.some(u => u.code === unit.code)) unlabelledUnits.push(unit);
+      return;
+    }
+    if (section === "core") {
+      if (!coreUnits.some(u => u.code === unit.code)) coreUnits.push(unit);
+      return;
+    }
+    if (!group) {
+      group = { name: "", units: [] };
+      electiveGroups.push(group);
+    }
+    if (!group.units.some(u => u.code === unit.code)) group.units.push(unit);
+  };
+
+  const onHeading = (text: string) => {
+    if (/^group\b/i.test(text)) {
+      section = "elective";
+      group = { name: text.replace(/:$/, ""), units: [] };
+      electiveGroups.push(group);
+    } else if (/elective/i.test(text)) {
+      section = "elective";
+      group = undefined;
+    } else if (/\bcore\b/i.test(text)) {
+      section = "core";
+      group = undefined;
+    }
+  };
+
+  if (header.length) {
+    const content = header.nextUntil("h2");
+    const blocks = content.find("h3, h4, h5, h6, p, li, tr")
+      .add(content.filter("h3, h4, h5, h6, p"))
+      .filter((_: number, el: any) => $(el).parents("tr, li").length === 0);
+
+    blocks.each((_: number, el: any) => {
+      const $el = $(el);
+
+      if ($el.is("tr")) {
+        const cells = $el.children("td, th").map((_: number, td: any) => normalize($(td).text())).get()
+          .filter(Boolean);
+        if (cells.length >= 2 && isUnitCode(cells[0])) {
+          addUnit({ code: cells[0], title: cells[1] });
+        } else if (cells.length === 1) {
+          const unit = parseUnitLine(cells[0]);
+          if (unit) {
+            addUnit(unit);
+          } else {
+            rules.push(cells[0]);
+            onHeading(cells[0]);
+          }
+        }
+        return;
+      }
+
+      const text = normalize($el.text());
+      if (!text) return;
+
+      const unit = parseUnitLine(text);
+      if (unit) {
+        addUnit(unit);
+        return;
+      }
+
+      rules.push(text);
+      if (isHeading($, $el, text)) onHeading(text);
+    });
+  }
+
+  const parseWarnings: string[] = [];
+  if (unlabelledUnits.length > 0) {
+    parseWarnings.push(
+      `${unlabelledUnits.length} unit(s) listed before any Core or Elective heading: ${unlabelledUnits.map(u => u.code).join(", ")}`
+    );
+  }
+
+  return {
+    url,
+    code,
+    title,
+    status,
+    release,
+    packagingRules: rules.length > 0 ? rules.join("\n") : undefined,
+    coreUnits,
+    electiveGroups: electiveGroups.filter(g => g.units.length > 0),
+    unlabelledUnits: unlabelledUnits.length > 0 ? unlabelledUnits : undefined,
+    parseWarnings: parseWarnings.length > 0 ? parseWarnings : undefined,
+    lastFetchedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Every unit code in a qualification, core units first.
+ */
+export function qualificationUnitCodes(qualification: Qualification): string[] {
+  const codes = [
+    ...qualification.coreUnits.map(u => u.code),
+    ...qualification.electiveGroups.flatMap(g => g.units.map(u => u.code)),
+    ...(qualification.unlabelledUnits ?? []).map(u => u.code)
+  ];
+  return [...new Set(codes)];
+}
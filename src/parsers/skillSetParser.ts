@@ -0,0 +1,64 @@
+import * as cheerio from "cheerio";
+import { ComponentUnit } from "../models/qualification.js";
+import { SkillSet } from "../models/skillSet.js";
+import { extractCodeAndTitle, extractStatus } from "./uocParser.js";
+import { isUnitCode, normalize, parseUnitLine } from "./componentUnits.js";
+
+function sectionContent($: cheerio.CheerioAPI, pattern: RegExp): cheerio.Cheerio<any> | undefined {
+  const header = $("h2, h3").filter((_: number, el: any) => pattern.test($(el).text().trim())).first();
+  return header.length ? header.nextUntil("h2") : undefined;
+}
+
+/**
+ * Parse a skill set page (/training/details/{code}/skillsetdetails): header
+ * details, the description and the member units listed under the skill set
+ * requirements.
+ */
+export function parseSkillSetHtml(html: string, url: string): SkillSet {
+  const $ = cheerio.load(html);
+  const { code, title } = extractCodeAndTitle($);
+  const { status, release } = extractStatus($);
+
+  const descriptionContent = sectionContent($, /^(description|target area)$/i);
+  const description = descriptionContent
+    ?.find("p").add(descriptionContent.filter("p"))
+    .map((_: number, p: any) => normalize($(p).text())).get()
+    .filter(Boolean)
+    .join("\n");
+
+  const content = sectionContent($, /skill set requirements/i) ?? sectionContent($, /\bunits\b/i);
+  const units: ComponentUnit[] = [];
+
+  const addUnit = (unit: ComponentUnit) => {
+    if (!units.some(u => u.code === unit.code)) units.push(unit);
+  };
+
+  content?.find("tr, li, p").add(content.filter("p"))
+    .filter((_: number, el: any) => $(el).parents("tr, li").length === 0)
+    .each((_: number, el: any) => {
+      const $el = $(el);
+
+      if ($el.is("tr")) {
+        const cells = $el.children("td, th").map((_: number, td: any) => normalize($(td).text())).get()
+          .filter(Boolean);
+        if (cells.length >= 2 && isUnitCode(cells[0])) {
+          addUnit({ code: cells[0], title: cells[1] });
+          return;
+        }
+      }
+
+      const unit = parseUnitLine($el.text());
+      if (unit) addUnit(unit);
+    });
+
+  return {
+    url,
+    code,
+    title,
+    status,
+    release,
+    description: description || undefined,
+    units,
+    lastFetchedAt: new Date().toISOString()
+  };
+}
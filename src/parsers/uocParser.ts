@@ -1,5 +1,11 @@
 import * as cheerio from "cheerio";
-import { Uoc, UocElement } from "../models/uoc.js";
+import { Classification, EvidenceNode, FoundationSkill, RangeVariable, TextNode, UnitMapping, Uoc, UocElement, UocRelease } from "../models/uoc.js";
+import { EvidencePrefix, numberEvidence, renderBullets } from "../models/evidence.js";
+import { classifyRows, parseSectorPath } from "../models/classification.js";
+import { checkCriteriaNumbering, parseCriterion, parseElementNumber } from "../models/criteria.js";
+import { FieldProvenance } from "../models/provenance.js";
+import { resolveSiteUrl } from "../siteUrls.js";
+import { EvidenceSectionProfile, getActiveProfile, ParserProfile, profileId, readField } from "./parserProfile.js";
 
 export type SimpleUoc = {
   code: string;
@@ -43,61 +49,188 @@ export function parseUoc(document: Document): SimpleUoc {
 
 // ============ Cheerio parser for Nuxt/Vue rendered pages ============
 
-function readDlByLabel($: cheerio.CheerioAPI, label: string): string | undefined {
-  const dt = $(`dt`).filter((_: number, el: any) => $(el).text().trim().toLowerCase() === label.toLowerCase()).first();
-  if (!dt.length) return undefined;
-  const dd = dt.next("dd");
-  const text = dd.text().trim();
-  return text || undefined;
+export function extractCodeAndTitle(
+  $: cheerio.CheerioAPI,
+  profile: ParserProfile = getActiveProfile(),
+  provenance?: FieldProvenance[]
+): { code: string; title: string } {
+  const code = readField($, profile, "code", provenance);
+  const title = readField($, profile, "title", provenance);
+  return code && title ? { code, title } : { code: "Unknown", title: "Unknown" };
 }
 
-function extractCodeAndTitle($: cheerio.CheerioAPI): { code: string; title: string } {
-  // Look for the hero subtitle div that contains code and title
-  const heroSubheading = $(".heroSubheading .title");
-  
-  if (heroSubheading.length) {
-    const strongText = heroSubheading.find("strong").first().text().trim();
-    const fullText = heroSubheading.text().trim();
-    
-    if (strongText && fullText) {
-      const title = fullText.replace(strongText, "").trim();
-      return { code: strongText, title };
-    }
-  }
+export function extractStatus(
+  $: cheerio.CheerioAPI,
+  profile: ParserProfile = getActiveProfile(),
+  provenance?: FieldProvenance[]
+): { status?: string; release?: string } {
+  return {
+    status: readField($, profile, "status", provenance),
+    release: readField($, profile, "release", provenance)
+  };
+}
 
-  // Fallback: check h1
-  const h1 = $("h1").first().text().trim();
-  const match = /^([A-Z]{2,}\w*\d{2,})\s*[-–—]?\s*(.+)$/.exec(h1);
-  if (match) return { code: match[1], title: match[2] };
+// Cell text without the mint-table mobile headings and screen-reader labels
+function tableCellText($: cheerio.CheerioAPI, profile: ParserProfile, td: any): string {
+  return $(td).clone().find(profile.selectors.tableCellNoise).remove().end()
+    .text().replace(/\s+/g, " ").trim();
+}
 
-  return { code: "Unknown", title: "Unknown" };
+function tableHeaders($: cheerio.CheerioAPI, profile: ParserProfile, table: any): string[] {
+  return $(table).find("thead th").map((_: number, th: any) => tableCellText($, profile, th).toLowerCase()).get();
 }
 
-function extractStatus($: cheerio.CheerioAPI): { status?: string; release?: string } {
-  let status: string | undefined;
-  $(".mint-pill").each((_: number, el: any) => {
-    const text = $(el).text().trim().toLowerCase();
-    if (text === "current" || text === "superseded" || text === "deleted") {
-      status = text.charAt(0).toUpperCase() + text.slice(1);
-    }
+// Tables whose column headers include every one of `required`
+function findTableByHeaders($: cheerio.CheerioAPI, profile: ParserProfile, required: string[]): cheerio.Cheerio<any> {
+  return $("table").filter((_: number, table: any) => {
+    const headers = tableHeaders($, profile, table);
+    return required.every(header => headers.includes(header));
   });
+}
 
-  // Extract release number with proper spacing
-  const releaseText = $(".release-label").parent().text();
-  const releaseMatch = releaseText.match(/Release\s*(\d+)/i);
-  const release = releaseMatch ? `Release ${releaseMatch[1]}` : undefined;
+/**
+ * Release history: release numbers and dates from the Releases table, merged
+ * with the comments of the Modification history table.
+ */
+function extractReleases($: cheerio.CheerioAPI, profile: ParserProfile): UocRelease[] | undefined {
+  const releases = new Map<string, UocRelease>();
+  const releaseOf = (number: string): UocRelease => {
+    if (!releases.has(number)) releases.set(number, { release: number });
+    return releases.get(number)!;
+  };
 
-  return { status, release };
+  const [releaseHeader, dateHeader] = profile.tables.releases;
+  findTableByHeaders($, profile, profile.tables.releases)
+    .each((_: number, table: any) => {
+      const headers = tableHeaders($, profile, table);
+      const releaseIndex = headers.indexOf(releaseHeader);
+      const dateIndex = headers.indexOf(dateHeader);
+
+      $(table).find("tbody tr").each((_: number, tr: any) => {
+        const cells = $(tr).children("td").map((_: number, td: any) => tableCellText($, profile, td)).get();
+        // "1 (This release) current"
+        const number = cells[releaseIndex]?.match(/^\d+(\.\d+)?/)?.[0];
+        if (!number) return;
+        const release = releaseOf(number);
+        release.date = release.date || cells[dateIndex] || undefined;
+      });
+    });
+
+  findTableByHeaders($, profile, profile.tables.modificationHistory)
+    .each((_: number, table: any) => {
+      $(table).find("tbody tr").each((_: number, tr: any) => {
+        const $cells = $(tr).children("td");
+        // "Release 1"
+        const number = tableCellText($, profile, $cells.get(0)).match(/(\d+(\.\d+)?)/)?.[1];
+        if (!number) return;
+        const comments = $cells.eq(1).find("p").map((_: number, p: any) => tableCellText($, profile, p)).get()
+          .filter(Boolean).join("\n") || tableCellText($, profile, $cells.get(1));
+        const release = releaseOf(number);
+        release.comments = release.comments || comments || undefined;
+      });
+    });
+
+  if (releases.size === 0) return undefined;
+  return [...releases.values()].sort((a, b) => Number(b.release) - Number(a.release));
 }
 
-function extractSupersession($: cheerio.CheerioAPI): {
+function extractClassifications($: cheerio.CheerioAPI, profile: ParserProfile): Classification[] | undefined {
+  const rows: Classification[] = [];
+  const [, codeHeader] = profile.tables.classifications;
+
+  findTableByHeaders($, profile, profile.tables.classifications).each((_: number, table: any) => {
+    const headers = tableHeaders($, profile, table);
+    const codeIndex = headers.indexOf(codeHeader);
+    const valueIndex = headers.findIndex(h => h.startsWith("classification"));
+
+    $(table).find("tbody tr").each((_: number, tr: any) => {
+      const cells = $(tr).children("td").map((_: number, td: any) => tableCellText($, profile, td)).get();
+      if (!cells[0]) return;
+      rows.push({
+        scheme: cells[0],
+        code: cells[codeIndex] || "",
+        value: (valueIndex >= 0 && cells[valueIndex]) || ""
+      });
+    });
+  });
+
+  return rows.length > 0 ? rows : undefined;
+}
+
+function mappingDirection(text: string): UnitMapping["direction"] | undefined {
+  if (/superseded by/i.test(text)) return "supersededBy";
+  if (/supersedes/i.test(text)) return "supersedes";
+  return undefined;
+}
+
+function mappingEquivalence(text: string): UnitMapping["equivalence"] {
+  if (/not equivalent/i.test(text)) return "Not equivalent";
+  if (/equivalent/i.test(text)) return "Equivalent";
+  return undefined;
+}
+
+/**
+ * Mapping records from the Mapping table ("Supersedes and is equivalent to
+ * BSBWOR203 Work effectively with others"), with equivalence filled in from
+ * the header's supersession tooltip ("BSBFLM312 - not equivalent") when the
+ * row does not state it.
+ */
+function extractMapping($: cheerio.CheerioAPI, profile: ParserProfile): UnitMapping[] | undefined {
+  const mapping = new Map<string, UnitMapping>();
+
+  findTableByHeaders($, profile, profile.tables.mapping).each((_: number, table: any) => {
+    const headers = tableHeaders($, profile, table);
+    const notesIndex = headers.indexOf("notes");
+    const dateIndex = headers.indexOf("date");
+
+    $(table).find("tbody tr").each((_: number, tr: any) => {
+      const $cells = $(tr).children("td");
+      const text = tableCellText($, profile, $cells.get(0));
+      const direction = mappingDirection(text);
+      const href = $cells.eq(0).find(profile.selectors.unitLink).first().attr("href") || "";
+      const code = href.split("/")[3] || text.match(/\b([A-Z]{2,}\w*\d{2,})\b/)?.[1];
+      if (!direction || !code) return;
+
+      const title = text.slice(text.indexOf(code) + code.length).replace(/^[\s-–—]+/, "").trim();
+      mapping.set(`${direction}:${code}`, {
+        direction,
+        code,
+        title: title || undefined,
+        release: text.match(/release\s+(\d+(\.\d+)?)/i)?.[1],
+        equivalence: mappingEquivalence(text.slice(0, text.indexOf(code))),
+        notes: (notesIndex >= 0 && tableCellText($, profile, $cells.get(notesIndex))) || undefined,
+        date: (dateIndex >= 0 && tableCellText($, profile, $cells.get(dateIndex))) || undefined
+      });
+    });
+  });
+
+  $(profile.selectors.tooltip).each((_: number, tooltip: any) => {
+    const direction = mappingDirection($(tooltip).text());
+    if (!direction) return;
+
+    $(tooltip).find(profile.selectors.unitLink).each((_: number, a: any) => {
+      const text = $(a).text().replace(/\s+/g, " ").trim();
+      const code = text.match(/\b([A-Z]{2,}\w*\d{2,})\b/)?.[1];
+      if (!code) return;
+
+      const key = `${direction}:${code}`;
+      const record = mapping.get(key) ?? { direction, code };
+      record.equivalence = record.equivalence ?? mappingEquivalence(text.slice(code.length));
+      mapping.set(key, record);
+    });
+  });
+
+  return mapping.size > 0 ? [...mapping.values()] : undefined;
+}
+
+function extractSupersession($: cheerio.CheerioAPI, profile: ParserProfile, pageUrl: string): {
   supersededBy: Uoc["supersededBy"];
   supersedes: Uoc["supersedes"];
 } {
   let supersededBy: Uoc["supersededBy"] = null;
   let supersedes: Uoc["supersedes"] = null;
 
-  $("a[href^='/training/details/']").each((_: number, a: any) => {
+  $(profile.selectors.unitLink).each((_: number, a: any) => {
     const $a = $(a);
     const href = $a.attr("href") || "";
     const text = $a.text().trim();
@@ -109,7 +242,7 @@ function extractSupersession($: cheerio.CheerioAPI): {
       if (codeMatch) {
         supersededBy = { 
           code: codeMatch[1], 
-          url: `https://training.gov.au${href}` 
+          url: resolveSiteUrl(href, pageUrl)
         };
       }
     }
@@ -118,7 +251,7 @@ function extractSupersession($: cheerio.CheerioAPI): {
       if (codeMatch) {
         supersedes = { 
           code: codeMatch[1], 
-          url: `https://training.gov.au${href}` 
+          url: resolveSiteUrl(href, pageUrl)
         };
       }
     }
@@ -127,7 +260,8 @@ function extractSupersession($: cheerio.CheerioAPI): {
   return { supersededBy, supersedes };
 }
 
-function extractElementsAndPC($: cheerio.CheerioAPI): UocElement[] | undefined {
+function extractElementsAndPC($: cheerio.CheerioAPI, profile: ParserProfile): UocElement[] | undefined {
+  const { keywords, skipRow } = profile.sections.elements;
   const items: UocElement[] = [];
   
   // Find all tables
@@ -137,10 +271,9 @@ function extractElementsAndPC($: cheerio.CheerioAPI): UocElement[] | undefined {
     const $table = $(table);
     
     // Check if this table contains "Elements" and "Performance Criteria"
-    const hasElements = $table.text().toLowerCase().includes("elements");
-    const hasPC = $table.text().toLowerCase().includes("performance criteria");
+    const tableText = $table.text().toLowerCase();
     
-    if (hasElements && hasPC) {
+    if (keywords.every(keyword => tableText.includes(keyword))) {
       let currentElement: UocElement | null = null;
       
       // Process each row in tbody
@@ -154,7 +287,7 @@ function extractElementsAndPC($: cheerio.CheerioAPI): UocElement[] | undefined {
         const cells = tds.map((_: number, td: any) => $(td).text().trim()).get();
         
         // Skip the description row
-        if (cells[0].toLowerCase().includes("elements describe")) return;
+        if (cells[0].toLowerCase().includes(skipRow)) return;
         
         // Format 1: 2-column table (Element | Performance Criteria with list)
         // Common in BSB units - PCs are in a list within the second cell
@@ -194,13 +327,13 @@ function extractElementsAndPC($: cheerio.CheerioAPI): UocElement[] | undefined {
         }
         // Format 2: 3-column table (Element | PC Number | PC Text)
         // Common in MAR units
-        else if (cells.length === 3 && cells[0] && cells[1] && cells[2]) {
+        else if (cells.length === 3 && cells[1] && cells[2]) {
           const elementText = cells[0];
           const pcNumber = cells[1];
           const pcText = cells[2];
           
           // If element text doesn't look like a PC number, it's a new element
-          if (!elementText.match(/^\d+\.\d+$/)) {
+          if (elementText && !elementText.match(/^\d+\.\d+$/)) {
             currentElement = {
               element: elementText,
               performanceCriteria: []
@@ -212,6 +345,10 @@ function extractElementsAndPC($: cheerio.CheerioAPI): UocElement[] | undefined {
               currentElement.performanceCriteria.push(`${pcNumber} ${pcText}`);
             }
           }
+          // Continuation row (empty element cell, PC number, PC text)
+          else if (!elementText && currentElement && pcNumber.match(/^\d+\.\d+$/)) {
+            currentElement.performanceCriteria.push(`${pcNumber} ${pcText}`);
+          }
         }
         // Format 3: Continuation row (4 cells: empty, empty, PC number, PC text)
         else if (cells.length === 4 && currentElement) {
@@ -226,288 +363,321 @@ function extractElementsAndPC($: cheerio.CheerioAPI): UocElement[] | undefined {
     }
   });
 
+  // Numbers are parsed once here so exporters never re-split the strings
+  for (const item of items) {
+    item.number = parseElementNumber(item.element);
+    item.criteria = item.performanceCriteria.map(parseCriterion);
+  }
+
   return items.length > 0 ? items : undefined;
 }
 
-function extractListFromSection($: cheerio.CheerioAPI, headerContains: string): string[] | undefined {
-  const header = $("h2, h3, h4").filter((_: number, el: any) =>
-    $(el).text().toLowerCase().includes(headerContains.toLowerCase())
-  ).first();
+// Shared helper: Extract a list as a tree of { text, children } nodes
+function extractListTree($: cheerio.CheerioAPI, $el: cheerio.Cheerio<any>): TextNode[] {
+  const nodes: TextNode[] = [];
 
-  if (!header.length) return undefined;
+  $el.children("li").each((_: number, li: any) => {
+    const $li = $(li);
+    const text = $li.clone().children("ul, ol").remove().end().text().replace(/\s+/g, " ").trim();
 
-  const list = header.nextAll("ul, ol").first();
-  if (!list.length) return undefined;
+    const children: TextNode[] = [];
+    $li.children("ul, ol").each((_: number, nestedList: any) => {
+      children.push(...extractListTree($, $(nestedList)));
+    });
 
-  return list.find("li").map((_: number, li: any) => $(li).text().trim()).get();
+    if (text) {
+      nodes.push({ text, children });
+    } else {
+      nodes.push(...children);
+    }
+  });
+
+  return nodes;
 }
 
-function extractTextFromSection($: cheerio.CheerioAPI, headerText: string): string | undefined {
-  const header = $("h2, h3, h4").filter((_: number, el: any) => {
-    const text = $(el).text().trim();
-    return text.toLowerCase() === headerText.toLowerCase();
-  }).first();
+// Text that introduces an evidence section rather than being part of it
+function isEvidenceBoilerplate(text: string): boolean {
+  return text.toLowerCase().includes("evidence required to demonstrate");
+}
 
-  if (!header.length) return undefined;
+type EvidenceBlock =
+  | { kind: "paragraph"; text: string }
+  | { kind: "list"; items: TextNode[] };
 
-  const texts: string[] = [];
-  let current = header.next();
-  
-  while (current.length && !current.is("h2, h3, h4")) {
-    const text = current.text().trim();
-    if (text && current.is("p")) {
-      texts.push(text);
+// Walk section content in document order, collecting paragraphs and top-level lists
+function collectEvidenceBlocks($: cheerio.CheerioAPI, $nodes: cheerio.Cheerio<any>): EvidenceBlock[] {
+  const blocks: EvidenceBlock[] = [];
+
+  $nodes.each((_: number, el: any) => {
+    const $node = $(el);
+
+    if ($node.is("h2, h3")) return;
+
+    if ($node.is("ul, ol")) {
+      const items = extractListTree($, $node).filter(item => !isEvidenceBoilerplate(item.text));
+      if (items.length > 0) blocks.push({ kind: "list", items });
+      return;
     }
-    current = current.next();
-  }
 
-  return texts.length > 0 ? texts.join("\n\n") : undefined;
+    // Paragraphs, and containers (divs, table cells) holding only text
+    if ($node.is("p") || $node.children().length === 0) {
+      const text = $node.text().replace(/\s+/g, " ").trim();
+      if (text && !isEvidenceBoilerplate(text)) blocks.push({ kind: "paragraph", text });
+      return;
+    }
+
+    blocks.push(...collectEvidenceBlocks($, $node.children()));
+  });
+
+  return blocks;
 }
 
-// Shared helper: Extract nested list items at any depth
-function extractNestedList($: cheerio.CheerioAPI, $el: cheerio.Cheerio<any>, depth: number = 0): string[] {
-  const items: string[] = [];
-  const indent = "  ".repeat(depth);
-  const bullet = depth === 0 ? "•" : "◦";
-  
-  $el.children("li").each((_: number, li: any) => {
-    const $li = $(li);
-    // Get text of this li, excluding nested ul/ol
-    const text = $li.clone().children("ul, ol").remove().end().text().trim();
-    
-    if (text && !text.toLowerCase().includes("evidence required to demonstrate")) {
-      items.push(`${indent}${bullet} ${text}`);
+// Shared helper: Build the evidence tree (PE/KE) and its bullet-text rendering
+function buildEvidence(
+  blocks: EvidenceBlock[],
+  prefix: EvidencePrefix
+): { text: string; tree: EvidenceNode[] } | undefined {
+  if (blocks.length === 0) return undefined;
+
+  const nodes: TextNode[] = [];
+  blocks.forEach((block, i) => {
+    if (block.kind === "list") {
+      nodes.push(...block.items);
+    } else if (blocks[i + 1]?.kind !== "list") {
+      // A paragraph leading into a list is its intro; standalone ones are evidence items
+      nodes.push({ text: block.text, children: [] });
     }
-    
-    // Recursively extract nested lists
-    $li.children("ul, ol").each((_: number, nestedList: any) => {
-      const nestedItems = extractNestedList($, $(nestedList), depth + 1);
-      items.push(...nestedItems);
-    });
   });
-  
-  return items;
+
+  const text = blocks
+    .map(block => block.kind === "paragraph" ? block.text : renderBullets(block.items).join("\n"))
+    .join("\n\n");
+
+  return { text, tree: numberEvidence(nodes, prefix) };
 }
 
 // Shared helper: Extract evidence sections (PE/KE) with multiple strategies
 // Extracts ALL content: paragraphs, bullet points, nested lists, etc.
 function extractEvidenceSection(
-  $: cheerio.CheerioAPI, 
-  dlLabel: string,
-  keywords: { primary: string[]; fallback?: string[] }
-): string | undefined {
+  $: cheerio.CheerioAPI,
+  profile: ParserProfile,
+  section: EvidenceSectionProfile,
+  prefix: EvidencePrefix,
+  field: string,
+  provenance: FieldProvenance[]
+): { text: string; tree: EvidenceNode[] } | undefined {
+  const record = (strategy: string, fallback: number, confidence: number) =>
+    provenance.push({ field, strategy, fallback, truncated: false, confidence });
+
   // Strategy 1: Check <dl> tags
-  const dlText = readDlByLabel($, dlLabel);
-  if (dlText) return dlText;
-  
+  const dt = $("dt").filter((_: number, el: any) => $(el).text().trim().toLowerCase() === section.label.toLowerCase()).first();
+  if (dt.length) {
+    const evidence = buildEvidence(collectEvidenceBlocks($, dt.next("dd")), prefix);
+    if (evidence) {
+      record("dl", 0, 1);
+      return evidence;
+    }
+  }
+
   // Strategy 2: Find heading containing keywords and extract ALL content until next heading
-  const header = $("h2, h3, .mt-6.mb-2, h4").filter((_: number, el: any) => {
+  const header = $(profile.selectors.evidenceHeadings).filter((_: number, el: any) => {
     const text = $(el).text().trim().toLowerCase();
-    return keywords.primary.every(kw => text.includes(kw));
+    return section.headingKeywords.every(kw => text.includes(kw));
   }).first();
 
   if (header.length) {
-    const parts: string[] = [];
-    let current = header.next();
-    
-    // Extract everything until we hit another major heading (h2/h3) or run out of siblings
-    while (current.length && !current.is("h2, h3")) {
-      // Extract paragraph text
-      if (current.is("p")) {
-        const text = current.text().trim();
-        if (text && !text.toLowerCase().includes("evidence required to demonstrate")) {
-          parts.push(text);
-        }
-      }
-      // Extract list items (with nesting)
-      else if (current.is("ul, ol")) {
-        const items = extractNestedList($, current);
-        if (items.length > 0) {
-          parts.push(items.join("\n"));
-        }
-      }
-      // Check for content in divs or other containers
-      else if (current.is("div")) {
-        // Extract paragraphs within div
-        const paragraphs = current.find("p");
-        paragraphs.each((_idx: number, pElem: any) => {
-          const $p = $(pElem);
-          const text = $p.text().trim();
-          if (text && !text.toLowerCase().includes("evidence required to demonstrate")) {
-            parts.push(text);
-          }
-        });
-        
-        // Extract lists within div
-        const lists = current.find("ul, ol");
-        lists.each((_idx: number, listElem: any) => {
-          const $list = $(listElem);
-          const items = extractNestedList($, $list);
-          if (items.length > 0) {
-            parts.push(items.join("\n"));
-          }
-        });
-      }
-      // Try to find the table structure (some units use tables)
-      else if (current.is("table") || current.find("table").length) {
-        const table = current.is("table") ? current : current.find("table").first();
-        
-        // Extract text from table cells
-        const tableParagraphs = table.find("p");
-        tableParagraphs.each((_idx: number, pElem: any) => {
-          const $p = $(pElem);
-          const text = $p.text().trim();
-          if (text && !text.toLowerCase().includes("evidence required to demonstrate")) {
-            parts.push(text);
-          }
-        });
-        
-        // Extract lists from table
-        const mainUl = table.find("tbody tr td > ul, tbody tr td > ol").first();
-        if (mainUl.length) {
-          const items = extractNestedList($, mainUl);
-          if (items.length > 0) {
-            parts.push(items.join("\n"));
-          }
-        }
-      }
-      
-      current = current.next();
-    }
-    
-    if (parts.length > 0) {
-      return parts.join("\n\n");
+    const evidence = buildEvidence(collectEvidenceBlocks($, header.nextUntil("h2, h3")), prefix);
+    if (evidence) {
+      record("section", 1, 0.9);
+      return evidence;
     }
   }
-  
+
   // Strategy 3: Search for fallback content keywords
-  if (keywords.fallback) {
+  if (section.contentKeywords) {
     const evidenceText = $("*").filter((_: number, el: any) => {
       const text = $(el).text().toLowerCase();
-      return keywords.fallback!.some(kw => text.includes(kw));
+      return section.contentKeywords!.some(kw => text.includes(kw));
     }).first();
-    
+
     if (evidenceText.length) {
-      const parts: string[] = [];
       const parent = evidenceText.closest("div, section, article, td");
-      
-      // Extract all paragraphs
-      const paragraphs = parent.find("p");
-      paragraphs.each((_idx: number, pElem: any) => {
-        const $p = $(pElem);
-        const text = $p.text().trim();
-        if (text) parts.push(text);
-      });
-      
-      // Extract all lists
-      const lists = parent.find("ul, ol");
-      lists.each((_idx: number, listElem: any) => {
-        const $list = $(listElem);
-        const items = extractNestedList($, $list);
-        if (items.length > 0) {
-          parts.push(items.join("\n"));
-        }
-      });
-      
-      if (parts.length > 0) {
-        return parts.join("\n\n");
+      // Whatever container mentions a keyword: often the right text, sometimes half the page
+      const evidence = buildEvidence(collectEvidenceBlocks($, parent.children()), prefix);
+      if (evidence) {
+        record("contentKeywords", 2, 0.5);
+        return evidence;
       }
     }
   }
-  
+
   return undefined;
 }
 
-function extractPerformanceEvidence($: cheerio.CheerioAPI): string | undefined {
-  return extractEvidenceSection($, "Performance Evidence", {
-    primary: ["performance", "evidence"],
-    fallback: ["evidence required to demonstrate competence"]
-  });
+function extractPerformanceEvidence($: cheerio.CheerioAPI, profile: ParserProfile, provenance: FieldProvenance[]) {
+  return extractEvidenceSection($, profile, profile.sections.performanceEvidence, "P", "performanceEvidence", provenance);
 }
 
-function extractKnowledgeEvidence($: cheerio.CheerioAPI): string | undefined {
-  return extractEvidenceSection($, "Knowledge Evidence", {
-    primary: ["knowledge", "evidence"],
-    fallback: ["evidence of the ability", "evidence of knowledge"]
-  });
+function extractKnowledgeEvidence($: cheerio.CheerioAPI, profile: ParserProfile, provenance: FieldProvenance[]) {
+  return extractEvidenceSection($, profile, profile.sections.knowledgeEvidence, "K", "knowledgeEvidence", provenance);
 }
 
-function extractAssessmentConditions($: cheerio.CheerioAPI): string | undefined {
-  // Try multiple strategies to find assessment conditions
-  
-  // Strategy 1: Look in <dl> tags
-  const dlText = readDlByLabel($, "Assessment Conditions");
-  if (dlText) return dlText;
-  
-  // Strategy 2: Find h2/h3/h4 heading
-  const header = $("h2, h3, h4").filter((_: number, el: any) => {
-    return $(el).text().trim().toLowerCase() === "assessment conditions";
-  }).first();
+// Values in a range cell: a (nested) list, else one value per paragraph or line
+function extractRangeValues($: cheerio.CheerioAPI, $cell: cheerio.Cheerio<any>): TextNode[] {
+  const lists = $cell.find("ul, ol").filter((_: number, list: any) => $(list).parents("li").length === 0);
+  if (lists.length) {
+    const values: TextNode[] = [];
+    lists.each((_: number, list: any) => {
+      values.push(...extractListTree($, $(list)));
+    });
+    return values;
+  }
 
-  if (header.length) {
-    const parts: string[] = [];
-    let current = header.next();
-    
-    while (current.length && !current.is("h2, h3")) {
-      if (current.is("p")) {
-        const text = current.text().trim();
-        if (text) parts.push(text);
-      } else if (current.is("ul, ol")) {
-        const items = current.find("li").map((_: number, li: any) => 
-          "• " + $(li).text().trim()
-        ).get();
-        if (items.length) parts.push(items.join("\n"));
-      }
-      current = current.next();
+  const paragraphs = $cell.find("p").map((_: number, p: any) => $(p).text().replace(/\s+/g, " ").trim()).get();
+  const lines = paragraphs.length
+    ? paragraphs
+    : $cell.text().split(/\n+/).map(line => line.replace(/\s+/g, " ").trim());
+
+  return lines.filter(Boolean).map(text => ({ text, children: [] }));
+}
+
+// First heading whose text is one of `headings`, ignoring case
+function findSectionHeading($: cheerio.CheerioAPI, profile: ParserProfile, headings: string[]): cheerio.Cheerio<any> {
+  const wanted = headings.map(h => h.toLowerCase());
+  return $(profile.selectors.headings).filter((_: number, el: any) =>
+    wanted.includes($(el).text().trim().toLowerCase())
+  ).first();
+}
+
+function extractRangeOfConditions($: cheerio.CheerioAPI, profile: ParserProfile): RangeVariable[] | undefined {
+  const header = findSectionHeading($, profile, profile.sections.rangeOfConditions.headings);
+
+  if (!header.length) return undefined;
+
+  const variables: RangeVariable[] = [];
+  const section = header.nextUntil("h2, h3");
+
+  // Table layout: variable in the first cell, its values in the second
+  section.find("tr").each((_: number, tr: any) => {
+    const tds = $(tr).children("td");
+    if (tds.length < 2) return;
+
+    const variable = $(tds[0]).text().replace(/\s+/g, " ").trim();
+    const values = extractRangeValues($, $(tds[1]));
+    if (variable && values.length) {
+      variables.push({ variable, values });
     }
-    
-    if (parts.length > 0) return parts.join("\n\n");
+  });
+
+  // List layout: a paragraph naming the variable followed by its list of values
+  if (variables.length === 0) {
+    let pending: string | undefined;
+    section.find("p, ul, ol").add(section.filter("p, ul, ol")).each((_: number, el: any) => {
+      const $el = $(el);
+      if ($el.is("p")) {
+        const text = $el.text().replace(/\s+/g, " ").trim();
+        if (text) pending = text;
+      } else if (pending && $el.parents("li").length === 0) {
+        const values = extractListTree($, $el);
+        if (values.length) variables.push({ variable: pending, values });
+        pending = undefined;
+      }
+    });
   }
-  
-  // Strategy 3: Search in all text for "Assessment conditions" section
-  const allText = $("body").text();
-  const acMatch = allText.match(/Assessment conditions\s+([\s\S]+?)(?=\n\s*(?:Performance evidence|Knowledge evidence|Range|$))/i);
-  if (acMatch) {
-    return acMatch[1].trim().replace(/\s+/g, ' ').substring(0, 2000);
+
+  return variables.length > 0 ? variables : undefined;
+}
+
+// "1.1, 1.3-1.5" -> ["1.1", "1.3", "1.4", "1.5"]
+function parsePcRefs(text: string): string[] {
+  const refs: string[] = [];
+  const pattern = /(\d+)\.(\d+)(?:\s*[-–—]\s*(?:(\d+)\.)?(\d+))?/g;
+
+  for (const match of text.matchAll(pattern)) {
+    const [, element, from, toElement, to] = match;
+    if (to && (!toElement || toElement === element) && Number(to) >= Number(from)) {
+      for (let n = Number(from); n <= Number(to); n++) refs.push(`${element}.${n}`);
+    } else {
+      refs.push(`${element}.${from}`);
+      if (to) refs.push(`${toElement ?? element}.${to}`);
+    }
   }
-  
-  return undefined;
+
+  return [...new Set(refs)];
 }
 
-function extractLicensingInfo($: cheerio.CheerioAPI): string | undefined {
-  // Strategy 1: Look in <dl> tags
-  const dlText = readDlByLabel($, "Licensing/Regulatory Information");
-  if (dlText) return dlText;
-  
-  // Strategy 2: Find the heading
-  const header = $("h2, h3, h4, strong").filter((_: number, el: any) => {
-    const text = $(el).text().trim();
-    return text.toLowerCase() === "licensing/regulatory information";
-  }).first();
+function cellText($: cheerio.CheerioAPI, $cell: cheerio.Cheerio<any>): string {
+  const items = $cell.find("li").map((_: number, li: any) => $(li).text().replace(/\s+/g, " ").trim()).get();
+  if (items.length) return items.filter(Boolean).join("\n");
 
-  if (header.length) {
-    const texts: string[] = [];
-    let current = header.next();
-    
-    while (current.length && !current.is("h2, h3, h4")) {
-      const text = current.text().trim();
-      if (text && current.is("p")) {
-        texts.push(text);
-      }
-      current = current.next();
+  const paragraphs = $cell.find("p").map((_: number, p: any) => $(p).text().replace(/\s+/g, " ").trim()).get();
+  if (paragraphs.length) return paragraphs.filter(Boolean).join("\n");
+
+  return $cell.text().replace(/\s+/g, " ").trim();
+}
+
+// Foundation Skills table: 2-column (Skill | Description) or
+// 3-column (Skill | Performance Criteria | Description) layouts
+function extractFoundationSkills($: cheerio.CheerioAPI, profile: ParserProfile): FoundationSkill[] | undefined {
+  const header = findSectionHeading($, profile, profile.sections.foundationSkills.headings);
+
+  if (!header.length) return undefined;
+
+  const table = header.nextUntil("h2, h3").find("table").first();
+  if (!table.length) return undefined;
+
+  const skills: FoundationSkill[] = [];
+  let pcColumn = -1;
+  let columnCount = 0;
+
+  table.find("tr").each((_: number, tr: any) => {
+    const cells = $(tr).children("td, th");
+    const texts = cells.map((_: number, td: any) => $(td).text().replace(/\s+/g, " ").trim()).get();
+    const lower = texts.map(t => t.toLowerCase());
+
+    // Header row (plain cells with bold labels on most pages)
+    if (lower.some(t => t === "skill" || t === "skills") || lower.some(t => t === "description")) {
+      columnCount = cells.length;
+      pcColumn = lower.findIndex(t => t.includes("criteria") || t.includes("performance"));
+      return;
     }
-    
-    if (texts.length > 0) return texts.join("\n\n");
-  }
-  
-  // Strategy 3: Extract from text (fallback)
-  const allText = $("body").text();
-  const licMatch = allText.match(/Licensing\/Regulatory Information\s+([\s\S]+?)(?=\n\s*(?:Pre-requisite|Application|$))/i);
-  if (licMatch) {
-    return licMatch[1].trim().replace(/\s+/g, ' ').substring(0, 500);
-  }
-  
-  return undefined;
+
+    if (!columnCount) {
+      columnCount = cells.length;
+      pcColumn = cells.length >= 3 ? 1 : -1;
+    }
+
+    let skill: string;
+    let pcText = "";
+    let $description: cheerio.Cheerio<any>;
+
+    if (cells.length === columnCount) {
+      skill = texts[0];
+      if (pcColumn > 0) pcText = texts[pcColumn];
+      $description = $(cells[cells.length - 1]);
+    } else if (cells.length === columnCount - 1 && skills.length) {
+      // Skill cell spans several rows
+      skill = skills[skills.length - 1].skill;
+      if (pcColumn > 0) pcText = texts[pcColumn - 1];
+      $description = $(cells[cells.length - 1]);
+    } else {
+      return;
+    }
+
+    const description = cellText($, $description);
+    if (!skill || !description) return;
+
+    skills.push({ skill, pcRefs: parsePcRefs(pcText), description });
+  });
+
+  return skills.length > 0 ? skills : undefined;
+}
+
+function renderFoundationSkills(skills: FoundationSkill[]): string {
+  return skills.map(({ skill, pcRefs, description }) => {
+    const refs = pcRefs.length ? ` (${pcRefs.join(", ")})` : "";
+    return `${skill}${refs}: ${description.replace(/\n/g, "; ")}`;
+  }).join("\n");
 }
 
 function cleanApplication(text: string | undefined): string | undefined {
@@ -521,39 +691,55 @@ function cleanApplication(text: string | undefined): string | undefined {
   return cleaned || undefined;
 }
 
-export function parseUocHtml(html: string, url: string): Uoc {
+/**
+ * Parse a rendered unit page. Selectors and labels come from the parser
+ * profile (see parserProfile.ts); its name and version are recorded on the
+ * unit, along with the strategy and confidence behind each text field.
+ */
+export function parseUocHtml(html: string, url: string, profile: ParserProfile = getActiveProfile()): Uoc {
   const $ = cheerio.load(html);
+  const provenance: FieldProvenance[] = [];
 
-  const { code, title } = extractCodeAndTitle($);
-  const { status, release } = extractStatus($);
+  const { code, title } = extractCodeAndTitle($, profile, provenance);
+  const { status, release } = extractStatus($, profile, provenance);
+  const releases = extractReleases($, profile);
 
-  const applicationRaw = readDlByLabel($, "Application") ?? extractTextFromSection($, "Application");
-  const application = cleanApplication(applicationRaw);
+  const application = cleanApplication(readField($, profile, "application", provenance));
   
-  const unitSector = readDlByLabel($, "Unit Sector") ?? extractTextFromSection($, "Unit sector");
-  const licensing = extractLicensingInfo($);
+  const unitSector = readField($, profile, "unitSector", provenance);
+  const classifications = extractClassifications($, profile);
+  const { fieldOfEducation, occupations } = classifyRows(classifications ?? []);
+  const licensing = readField($, profile, "licensing", provenance);
   
-  const prerequisitesRaw =
-    readDlByLabel($, "Prerequisite Unit") ??
-    readDlByLabel($, "Prerequisites") ??
-    readDlByLabel($, "Pre-requisite Unit") ??
-    extractTextFromSection($, "Pre-requisite unit");
+  const prerequisitesRaw = readField($, profile, "prerequisites", provenance);
 
   const prerequisites = prerequisitesRaw
     ? [...new Set(prerequisitesRaw.match(/\b[A-Z]{2,}\w*\d{2,}\b/g) ?? [])]
     : undefined;
 
-  const elements = extractElementsAndPC($);
-
-  const foundationSkills =
-    readDlByLabel($, "Foundation Skills") ??
-    extractTextFromSection($, "Foundation skills");
+  const elements = extractElementsAndPC($, profile);
+  const numberingWarnings = elements ? checkCriteriaNumbering(elements) : [];
+
+  const foundationSkills = extractFoundationSkills($, profile);
+  let foundationSkillsText = readField($, profile, "foundationSkillsText", provenance);
+  if (!foundationSkillsText && foundationSkills) {
+    foundationSkillsText = renderFoundationSkills(foundationSkills);
+    provenance.push({
+      field: "foundationSkillsText",
+      strategy: "table",
+      fallback: profile.fields.foundationSkillsText.length,
+      truncated: false,
+      confidence: 0.9
+    });
+  }
 
-  const assessmentConditions = extractAssessmentConditions($);
-  const performanceEvidence = extractPerformanceEvidence($);
-  const knowledgeEvidence = extractKnowledgeEvidence($);
+  const assessmentConditions = readField($, profile, "assessmentConditions", provenance);
+  const performanceEvidence = extractPerformanceEvidence($, profile, provenance);
+  const knowledgeEvidence = extractKnowledgeEvidence($, profile, provenance);
+  const rangeOfConditions = extractRangeOfConditions($, profile);
 
-  const { supersededBy, supersedes } = extractSupersession($);
+  const { supersededBy, supersedes } = extractSupersession($, profile, url);
+  const mapping = extractMapping($, profile);
 
   const uoc: Uoc = {
     url,
@@ -561,17 +747,30 @@ export function parseUocHtml(html: string, url: string): Uoc {
     title,
     status,
     release,
+    releases,
     application,
     unitSector,
+    sectorPath: parseSectorPath(unitSector),
+    fieldOfEducation,
+    occupations,
+    classifications,
     licensingOrRegulatoryInfo: licensing,
     prerequisites,
     elements,
     foundationSkills,
+    foundationSkillsText,
     assessmentConditions,
-    performanceEvidence,
-    knowledgeEvidence,
+    performanceEvidence: performanceEvidence?.text,
+    knowledgeEvidence: knowledgeEvidence?.text,
+    performanceEvidenceTree: performanceEvidence?.tree,
+    knowledgeEvidenceTree: knowledgeEvidence?.tree,
+    rangeOfConditions,
+    mapping,
+    parseWarnings: numberingWarnings.length > 0 ? numberingWarnings : undefined,
     supersededBy: supersededBy ?? null,
     supersedes: supersedes ?? null,
+    parserProfile: profileId(profile),
+    provenance: provenance.length > 0 ? provenance : undefined,
     lastFetchedAt: new Date().toISOString()
   };
 
@@ -0,0 +1,312 @@
+/**
+ * Offline Re-parse
+ *
+ * Rebuilds the stored units, uoc.jsonl and the Excel workbook from pages that were already
+ * downloaded, using the current parseUocHtml. No fetcher, no network.
+ *
+ * Sources:
+ * - The snapshot cache in <dataDir>/cache/pages (default)
+ * - Any folder of saved snapshot .json files or raw .html pages (--archive)
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { parseUocHtml } from "./parsers/uocParser.js";
+import { hasUnitContent } from "./parsers/pageDetection.js";
+import { isUnitCode } from "./parsers/componentUnits.js";
+import { getActiveProfile, loadParserProfile, ParserProfile, profileId } from "./parsers/parserProfile.js";
+import { ExportService } from "./services/exportService.js";
+import { UnitRepository } from "./services/unitRepository.js";
+import { EnhancedExcelExportService } from "./services/enhancedExcelService.js";
+import { hashContent, PageSnapshot, SnapshotCache } from "./services/snapshotCache.js";
+import { Uoc } from "./models/uoc.js";
+import { describeProvenance, ReviewEntry, reviewEntry } from "./models/provenance.js";
+import { lostFields } from "./models/coverage.js";
+import { unitUrl } from "./siteUrls.js";
+
+export interface ReparseConfig {
+  dataDir: string;
+  outputExcel: string;
+  archiveDir?: string;  // Defaults to the snapshot cache under dataDir
+  dryRun?: boolean;     // Report changes without writing anything
+  profile?: ParserProfile;  // Defaults to PARSER_PROFILE or the built-in profile
+  allowDegraded?: boolean;  // Overwrite stored units even when the new parse lost fields
+}
+
+export interface UnitChange {
+  code: string;
+  fields: string[];     // Fields whose value differs from the stored record
+}
+
+export interface ReparseResult {
+  parsed: number;
+  skipped: string[];    // Archive entries that are not unit pages or did not parse
+  added: string[];
+  changed: UnitChange[];
+  unchanged: string[];
+  degraded: UnitChange[];      // Changed units that lost fields; kept as stored unless allowDegraded
+  needsReview: ReviewEntry[];  // Re-parsed units with low-confidence fields
+}
+
+const UNIT_PAGE_URL = /\/training\/details\/[^/]+\/unitdetails\/?$/i;
+
+/**
+ * The cache also holds qualification, skill set and package listing pages,
+ * and older releases of units (unitdetails?release=N, see scrapeRelease.ts)
+ * that must not replace the current record. Snapshots with a URL are kept
+ * only for plain unit detail URLs; raw saved pages have none, so their
+ * content has to look like a unit.
+ */
+function isUnitSnapshot(snapshot: PageSnapshot): boolean {
+  return snapshot.url ? UNIT_PAGE_URL.test(snapshot.url) : hasUnitContent(snapshot.html);
+}
+
+// Fields that describe the fetch rather than the unit content
+const VOLATILE_FIELDS = new Set(["lastFetchedAt", "parserProfile", "provenance"]);
+
+async function readArchiveDir(dir: string): Promise<PageSnapshot[]> {
+  const files = await fs.readdir(dir);
+  const snapshots: PageSnapshot[] = [];
+
+  for (const file of files) {
+    const filepath = path.join(dir, file);
+
+    try {
+      if (file.endsWith(".json")) {
+        const snapshot = JSON.parse(await fs.readFile(filepath, "utf-8")) as PageSnapshot;
+        if (snapshot.html) snapshots.push(snapshot);
+      } else if (file.endsWith(".html") || file.endsWith(".htm")) {
+        // Raw saved pages carry no URL; it is rebuilt from the parsed code
+        const html = await fs.readFile(filepath, "utf-8");
+        const stat = await fs.stat(filepath);
+        snapshots.push({
+          url: "",
+          fetchedAt: stat.mtime.toISOString(),
+          contentHash: hashContent(html),
+          html
+        });
+      }
+    } catch (error: any) {
+      console.log(`⚠️  Skipping ${file}: ${error.message}`);
+    }
+  }
+
+  return snapshots;
+}
+
+function readStoredUnits(dataDir: string): Map<string, Uoc> {
+  const repository = UnitRepository.open(dataDir);
+  try {
+    return new Map(repository.all().map(unit => [unit.code, unit]));
+  } finally {
+    repository.close();
+  }
+}
+
+function changedFields(before: Uoc, after: Uoc): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const fields: string[] = [];
+
+  for (const key of keys) {
+    if (VOLATILE_FIELDS.has(key)) continue;
+    const a = JSON.stringify((before as any)[key] ?? null);
+    const b = JSON.stringify((after as any)[key] ?? null);
+    if (a !== b) fields.push(key);
+  }
+
+  return fields;
+}
+
+export async function reparseArchive(config: ReparseConfig): Promise<ReparseResult> {
+  const archiveDir = config.archiveDir ?? path.join(config.dataDir, "cache", "pages");
+  console.log(`📂 Reading archived pages from: ${archiveDir}`);
+
+  const snapshots = config.archiveDir
+    ? await readArchiveDir(config.archiveDir)
+    : await new SnapshotCache(config.dataDir).list();
+  console.log(`   ✓ Found ${snapshots.length} archived pages`);
+
+  const profile = config.profile ?? getActiveProfile();
+  console.log(`   Parser profile: ${profileId(profile)}\n`);
+
+  // Parse every page; when a unit was archived more than once keep the newest copy
+  const reparsed = new Map<string, Uoc>();
+  const skipped: string[] = [];
+
+  for (const snapshot of snapshots) {
+    if (!isUnitSnapshot(snapshot)) {
+      skipped.push(snapshot.url || snapshot.contentHash);
+      continue;
+    }
+
+    let uoc: Uoc;
+    try {
+      uoc = parseUocHtml(snapshot.html, snapshot.url, profile);
+    } catch (error: any) {
+      skipped.push(snapshot.url || snapshot.contentHash);
+      console.log(`⚠️  Could not parse ${snapshot.url || snapshot.contentHash}: ${error.message}`);
+      continue;
+    }
+
+    // Skill set and qualification pages share the unit page's header
+    if (!isUnitCode(uoc.code)) {
+      skipped.push(snapshot.url || snapshot.contentHash);
+      continue;
+    }
+
+    uoc.url = uoc.url || unitUrl(uoc.code);
+    uoc.lastFetchedAt = snapshot.fetchedAt;
+
+    const previous = reparsed.get(uoc.code);
+    if (!previous || previous.lastFetchedAt < uoc.lastFetchedAt) {
+      reparsed.set(uoc.code, uoc);
+    }
+  }
+
+  // Compare against the current store
+  const jsonlPath = path.join(config.dataDir, "uoc.jsonl");
+  const stored = readStoredUnits(config.dataDir);
+
+  const added: string[] = [];
+  const changed: UnitChange[] = [];
+  const unchanged: string[] = [];
+  const degraded: UnitChange[] = [];
+
+  for (const [code, uoc] of reparsed) {
+    const before = stored.get(code);
+    if (!before) {
+      added.push(code);
+      continue;
+    }
+    const lost = lostFields(before, uoc);
+    if (lost.length > 0 && !config.allowDegraded) {
+      degraded.push({ code, fields: lost });
+      continue;
+    }
+    const fields = changedFields(before, uoc);
+    if (fields.length > 0) {
+      changed.push({ code, fields });
+    } else {
+      unchanged.push(code);
+    }
+  }
+
+  const needsReview = [...reparsed.values()].flatMap(uoc => reviewEntry(uoc) ?? []);
+  const result: ReparseResult = { parsed: reparsed.size, skipped, added, changed, unchanged, degraded, needsReview };
+
+  if (config.dryRun) {
+    return result;
+  }
+
+  const exporter = new ExportService(config.dataDir, { allowDegraded: config.allowDegraded });
+  await exporter.writeReviewReport(needsReview);
+
+  // Rewrite only the units whose parsed content differs
+  const toWrite = [...added, ...changed.map(c => c.code)];
+  if (toWrite.length > 0) {
+    await exporter.init();
+    for (const code of toWrite) {
+      await exporter.writeUnit(reparsed.get(code)!);
+    }
+  }
+  await exporter.exportJsonl();
+  exporter.close();
+
+  if (await fs.access(jsonlPath).then(() => true).catch(() => false)) {
+    console.log("\n📊 Rebuilding Excel file...");
+    const excelExporter = new EnhancedExcelExportService(config.dataDir, config.outputExcel);
+    await excelExporter.exportFromJsonl(jsonlPath, config.outputExcel, false);
+  }
+
+  return result;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  const config: ReparseConfig = {
+    dataDir: "data",
+    outputExcel: "UnitsData.xlsx",
+    dryRun: args.includes("--dry-run"),
+    allowDegraded: args.includes("--allow-degraded")
+  };
+
+  const archiveIndex = args.indexOf("--archive");
+  if (archiveIndex >= 0 && args[archiveIndex + 1]) {
+    config.archiveDir = args[archiveIndex + 1];
+  }
+
+  const outputIndex = args.indexOf("--output");
+  if (outputIndex >= 0 && args[outputIndex + 1]) {
+    config.outputExcel = args[outputIndex + 1];
+  }
+
+  const dataIndex = args.indexOf("--data");
+  if (dataIndex >= 0 && args[dataIndex + 1]) {
+    config.dataDir = args[dataIndex + 1];
+  }
+
+  const profileIndex = args.indexOf("--profile");
+  if (profileIndex >= 0 && args[profileIndex + 1]) {
+    config.profile = loadParserProfile(args[profileIndex + 1]);
+  }
+
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log(`
+Usage: npx tsx src/reparse.ts [options]
+
+Re-runs the current unit parser over previously downloaded pages and rewrites
+uoc.jsonl and the Excel workbook. Does not touch the network.
+
+Options:
+  --archive <dir>   Folder of snapshot .json or saved .html pages
+                    (default: <data>/cache/pages)
+  --data <dir>      Data directory holding uoc.jsonl (default: data)
+  --output <file>   Excel file to rebuild (default: UnitsData.xlsx)
+  --dry-run         Only report which units would change
+  --allow-degraded  Also rewrite units whose new parse lost elements, evidence,
+                    title or release (kept as stored by default)
+  --profile <file>  Parser profile JSON to parse with (default: PARSER_PROFILE
+                    or the built-in src/parsers/profiles/tga.json)
+  --help, -h        Show this help
+
+Examples:
+  npx tsx src/reparse.ts
+  npx tsx src/reparse.ts --dry-run
+  npx tsx src/reparse.ts --archive saved-pages --output Results.xlsx
+  npx tsx src/reparse.ts --dry-run --profile my-profile.json
+`);
+    return;
+  }
+
+  console.log("\n♻️  Re-parsing archived pages...\n");
+  const result = await reparseArchive(config);
+
+  console.log("\n" + "=".repeat(60));
+  console.log(`📋 Re-parse ${config.dryRun ? "preview" : "results"}:`);
+  console.log(`   Parsed units: ${result.parsed}`);
+  console.log(`   🆕 New: ${result.added.length}`);
+  result.added.forEach(code => console.log(`      - ${code}`));
+  console.log(`   🔄 Changed: ${result.changed.length}`);
+  result.changed.forEach(({ code, fields }) => console.log(`      - ${code}: ${fields.join(", ")}`));
+  console.log(`   ✓  Unchanged: ${result.unchanged.length}`);
+  if (result.degraded.length > 0) {
+    console.log(`   🛡️  Kept as stored (new parse lost fields): ${result.degraded.length}`);
+    result.degraded.forEach(({ code, fields }) => console.log(`      - ${code}: no ${fields.join(", ")}`));
+  }
+  if (result.needsReview.length > 0) {
+    console.log(`   🔎 Needs review: ${result.needsReview.length}`);
+    result.needsReview.forEach(({ code, fields }) => console.log(`      - ${code}: ${fields.map(describeProvenance).join(", ")}`));
+  }
+  if (result.skipped.length > 0) {
+    console.log(`   ⏭️  Skipped (not a unit page): ${result.skipped.length}`);
+  }
+  console.log("=".repeat(60) + "\n");
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((e) => {
+    console.error("\n❌ Fatal error:", e.message);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,47 @@
+import { PageSource } from "./pageSource.js";
+import { CircuitBreaker } from "./utils/circuitBreaker.js";
+import { withRetries } from "./utils/requestUtils.js";
+
+export type ResilienceOptions = {
+  retries?: number;               // Retries per URL within a run (default: 2, 0 disables)
+  retryDelayMs?: number;          // Base backoff delay (default: 2000)
+  circuitBreaker?: CircuitBreaker; // Shared breaker for the run (default: a new one)
+};
+
+/**
+ * Wraps a page source with in-run retries and a circuit breaker, so transient
+ * failures are retried with jittered backoff and a site outage pauses the run
+ * instead of failing every remaining unit.
+ */
+export class ResilientPageSource implements PageSource {
+  private retries: number;
+  private retryDelayMs: number;
+  readonly circuitBreaker: CircuitBreaker;
+
+  constructor(private source: PageSource, opts?: ResilienceOptions) {
+    this.retries = Math.max(0, opts?.retries ?? 2);
+    this.retryDelayMs = opts?.retryDelayMs ?? 2000;
+    this.circuitBreaker = opts?.circuitBreaker ?? new CircuitBreaker();
+  }
+
+  get(url: string): Promise<string> {
+    return withRetries(
+      () => this.circuitBreaker.execute(() => this.source.get(url)),
+      { retries: this.retries, baseDelayMs: this.retryDelayMs, label: `[${url}]` }
+    );
+  }
+
+  getAllPages(url: string): Promise<string[]> {
+    // Backends without pagination support only see the first page
+    if (!this.source.getAllPages) return this.get(url).then(html => [html]);
+
+    return withRetries(
+      () => this.circuitBreaker.execute(() => this.source.getAllPages!(url)),
+      { retries: this.retries, baseDelayMs: this.retryDelayMs, label: `[${url}]` }
+    );
+  }
+
+  async close(): Promise<void> {
+    await this.source.close();
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Specific Release Scrape
+ *
+ * Scrapes a given release of one or more units (e.g. release 1 of BSBTWK201)
+ * and stores it in the unit store, keyed by code and release, so older
+ * releases sit alongside the current records. They are exported to
+ * <dataDir>/releases.jsonl.
+ */
+
+import { createPageSource, FetchBackend, isFetchBackend } from "./pageSource.js";
+import { ExportService } from "./services/exportService.js";
+import { parseMaxAge, SnapshotCache } from "./services/snapshotCache.js";
+import { parseUocHtml } from "./parsers/uocParser.js";
+import { configureSharedRateLimiter, parseRequestsPerMinute, RateLimiterOptions } from "./utils/rateLimiter.js";
+import { classifyError } from "./errors.js";
+import { unitUrl } from "./siteUrls.js";
+import { promises as fs } from "fs";
+
+export interface ReleaseScrapeConfig {
+  codes: string[];
+  release: string;             // Release number, e.g. "1"
+  dataDir: string;
+  fetchBackend?: FetchBackend;
+  useCache?: boolean;
+  cacheMaxAgeMs?: number;
+  rateLimit?: RateLimiterOptions;
+}
+
+/**
+ * Unit page for a given release. Assumes the site picks the release from a
+ * "release" query parameter; scrapeReleases checks the page it gets back.
+ */
+export function unitReleaseUrl(code: string, release: string): string {
+  return `${unitUrl(code)}?release=${encodeURIComponent(release)}`;
+}
+
+export async function scrapeReleases(config: ReleaseScrapeConfig) {
+  configureSharedRateLimiter({
+    requestsPerMinute: 20,
+    burst: 1,
+    maxConcurrency: 1,
+    ...config.rateLimit
+  });
+
+  const pageSource = createPageSource({
+    backend: config.fetchBackend,
+    cache: new SnapshotCache(config.dataDir, {
+      maxAgeMs: config.useCache === false ? 0 : config.cacheMaxAgeMs
+    }),
+    headless: true,
+    timeout: 30000
+  });
+
+  const exporter = new ExportService(config.dataDir);
+  const wanted = `Release ${config.release}`;
+  const failed: { code: string; error: string }[] = [];
+  let stored = 0;
+
+  try {
+    for (const code of config.codes) {
+      const url = unitReleaseUrl(code, config.release);
+      console.log(`🕰️  Fetching ${code} ${wanted}...`);
+
+      try {
+        const unit = parseUocHtml(await pageSource.get(url), url);
+
+        // Never file the page under a release it does not show
+        if (unit.release !== wanted) {
+          const known = unit.releases?.map(r => r.release).join(", ");
+          throw new Error(
+            `site returned ${unit.release ?? "no release"} instead of ${wanted}` +
+            (known ? ` (releases on record: ${known})` : "")
+          );
+        }
+
+        await exporter.writeRelease(unit);
+        stored++;
+        const date = unit.releases?.find(r => r.release === config.release)?.date;
+        console.log(`   ✅ ${unit.code} - ${unit.title} (${wanted}${date ? `, ${date}` : ""})`);
+      } catch (error: any) {
+        failed.push({ code, error: `${classifyError(error)}: ${error.message || error}` });
+        console.log(`   ⚠️  ${classifyError(error)}: ${error.message || error}`);
+      }
+    }
+  } finally {
+    await pageSource.close();
+    await exporter.exportJsonl();
+    exporter.close();
+  }
+
+  console.log("\n" + "=".repeat(60));
+  console.log(`📋 ${wanted} scrape results:`);
+  console.log(`   ✅ Stored in releases.jsonl: ${stored}`);
+  if (failed.length > 0) {
+    console.log(`   ❌ Failed: ${failed.length}`);
+    failed.forEach(({ code, error }) => console.log(`      - ${code}: ${error}`));
+  }
+  console.log("=".repeat(60) + "\n");
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log(`
+Usage: npx tsx src/scrapeRelease.ts <code> [code...] --release <n> [options]
+
+Scrapes a specific release of each unit and stores it in <data>/releases.jsonl.
+The current record in <data>/uoc.jsonl is left untouched.
+
+Options:
+  --release <n>     Release number to scrape (required)
+  --data <dir>      Data directory (default: data)
+  --backend <name>  Fetch backend: "browser" (Chromium, default) or "http" (no browser)
+  --rpm <n>         Maximum requests per minute to training.gov.au (default: 20)
+  --no-cache        Ignore cached pages in <data>/cache and download again
+  --max-age <age>   Reuse cached pages younger than this (hours, or 30m/12h/7d; default: 24h)
+  --help, -h        Show this help
+
+Examples:
+  npx tsx src/scrapeRelease.ts BSBTWK201 --release 1
+  npx tsx src/scrapeRelease.ts MARH013 MARK007 --release 2 --backend http
+`);
+    return;
+  }
+
+  const config: ReleaseScrapeConfig = {
+    codes: [],
+    release: "",
+    dataDir: "data"
+  };
+
+  const valueFlags = ["--release", "--data", "--backend", "--rpm", "--max-age"];
+  for (let i = 0; i < args.length; i++) {
+    if (valueFlags.includes(args[i])) {
+      i++;
+    } else if (!args[i].startsWith("--")) {
+      config.codes.push(args[i].toUpperCase());
+    }
+  }
+
+  const releaseIndex = args.indexOf("--release");
+  if (releaseIndex >= 0 && args[releaseIndex + 1]) {
+    config.release = args[releaseIndex + 1].replace(/^release\s*/i, "");
+  }
+
+  const dataIndex = args.indexOf("--data");
+  if (dataIndex >= 0 && args[dataIndex + 1]) {
+    config.dataDir = args[dataIndex + 1];
+  }
+
+  const backendIndex = args.indexOf("--backend");
+  if (backendIndex >= 0 && args[backendIndex + 1]) {
+    const backend = args[backendIndex + 1];
+    if (!isFetchBackend(backend)) {
+      console.error(`❌ Unknown backend "${backend}" (expected "browser" or "http")`);
+      process.exit(1);
+    }
+    config.fetchBackend = backend;
+  }
+
+  const rpmIndex = args.indexOf("--rpm");
+  if (rpmIndex >= 0 && args[rpmIndex + 1]) {
+    try {
+      config.rateLimit = { requestsPerMinute: parseRequestsPerMinute(args[rpmIndex + 1]) };
+    } catch (error: any) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  if (args.includes("--no-cache")) {
+    config.useCache = false;
+  }
+
+  const maxAgeIndex = args.indexOf("--max-age");
+  if (maxAgeIndex >= 0 && args[maxAgeIndex + 1]) {
+    try {
+      config.cacheMaxAgeMs = parseMaxAge(args[maxAgeIndex + 1]);
+    } catch (error: any) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  if (config.codes.length === 0) {
+    console.error("❌ No unit codes given (see --help)");
+    process.exit(1);
+  }
+  if (!/^\d+(\.\d+)?$/.test(config.release)) {
+    console.error("❌ --release <n> is required, e.g. --release 1");
+    process.exit(1);
+  }
+
+  await fs.mkdir(config.dataDir, { recursive: true });
+
+  console.log(`\n🕰️  Scraping release ${config.release} of: ${config.codes.join(", ")}\n`);
+  await scrapeReleases(config);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((e) => {
+    console.error("\n❌ Fatal error:", e.message);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,141 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { ChangeKind, ItemChange, itemLabel, UnitDiff } from "../models/unitDiff.js";
+import { JsonlStore } from "./jsonlStore.js";
+
+// A unit diff as kept in <outDir>/changes.jsonl
+export interface ChangeRecord extends UnitDiff {
+  detectedAt: string;
+}
+
+// One record per unit and pair of scrapes compared
+export function changeKey(diff: UnitDiff): string {
+  return `${diff.code}@${diff.fromFetchedAt}..${diff.toFetchedAt}`;
+}
+
+export function changeLog(outDir: string): JsonlStore<ChangeRecord> {
+  return new JsonlStore<ChangeRecord>(outDir, "changes.jsonl", changeKey);
+}
+
+const KIND_LABELS: Record<ChangeKind, string> = {
+  added: "Added",
+  removed: "Removed",
+  reworded: "Reworded",
+  renumbered: "Renumbered"
+};
+
+// "Reworded (82% alike)"
+export function describeKind(change: ItemChange): string {
+  const label = KIND_LABELS[change.kind];
+  return change.similarity !== undefined ? `${label} (${Math.round(change.similarity * 100)}% alike)` : label;
+}
+
+// "Performance criterion 2.1", "Element 3"
+export function describeItem(change: ItemChange): string {
+  const number = change.afterNumber ?? change.beforeNumber;
+  return number ? `${itemLabel(change.item)} ${number}` : itemLabel(change.item);
+}
+
+const side = (number?: string, text?: string) => [number, text].filter(Boolean).join(" ");
+
+// "Release 1 -> Release 2", or the fetch dates when the release did not change
+function describeRange(diff: UnitDiff): string {
+  const day = (timestamp?: string) => timestamp?.slice(0, 10) || "unknown";
+  const fetched = `fetched ${day(diff.fromFetchedAt)} -> ${day(diff.toFetchedAt)}`;
+  return diff.fromRelease !== diff.toRelease
+    ? `${diff.fromRelease ?? "no release"} -> ${diff.toRelease ?? "no release"} (${fetched})`
+    : `${diff.toRelease ?? "No release"}, ${fetched}`;
+}
+
+const markdownCell = (text: string) => text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+
+export function renderMarkdown(diffs: UnitDiff[], title = "Unit changes"): string {
+  const lines = [`# ${title}`, "", `${diffs.length} unit(s) changed.`, ""];
+
+  for (const diff of diffs) {
+    lines.push(`## ${diff.code} ${diff.title}`, "", describeRange(diff), "");
+    if (diff.changes.length === 0) {
+      lines.push("No changes to the title, elements, criteria or evidence.", "");
+      continue;
+    }
+    lines.push("| Item | Change | Before | After |", "| --- | --- | --- | --- |");
+    for (const change of diff.changes) {
+      const cells = [
+        describeItem(change),
+        describeKind(change),
+        side(change.beforeNumber, change.beforeText),
+        side(change.afterNumber, change.afterText)
+      ];
+      lines.push(`| ${cells.map(markdownCell).join(" | ")} |`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, "&amp;")
+  .replace(/</g, "&lt;")
+  .replace(/>/g, "&gt;")
+  .replace(/"/g, "&quot;");
+
+// Same fills as the Excel Changes sheet
+const HTML_STYLE = `
+  body { font-family: Calibri, Arial, sans-serif; margin: 2em; color: #222; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 2em; }
+  th, td { border: 1px solid #999; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #4472C4; color: #fff; }
+  tr.added td { background: #E2EFDA; }
+  tr.removed td { background: #FCE4D6; }
+  tr.reworded td { background: #FFF2CC; }
+  tr.renumbered td { background: #D9E1F2; }
+`;
+
+export function renderHtml(diffs: UnitDiff[], title = "Unit changes"): string {
+  const sections = diffs.map(diff => {
+    const rows = diff.changes.map(change => `      <tr class="${change.kind}">` +
+      `<td>${escapeHtml(describeItem(change))}</td>` +
+      `<td>${escapeHtml(describeKind(change))}</td>` +
+      `<td>${escapeHtml(side(change.beforeNumber, change.beforeText))}</td>` +
+      `<td>${escapeHtml(side(change.afterNumber, change.afterText))}</td></tr>`);
+    const body = rows.length > 0
+      ? `  <table>\n    <thead><tr><th>Item</th><th>Change</th><th>Before</th><th>After</th></tr></thead>\n    <tbody>\n${rows.join("\n")}\n    </tbody>\n  </table>`
+      : `  <p>No changes to the title, elements, criteria or evidence.</p>`;
+    return `  <h2>${escapeHtml(`${diff.code} ${diff.title}`)}</h2>\n  <p>${escapeHtml(describeRange(diff))}</p>\n${body}`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>${HTML_STYLE}</style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p>${diffs.length} unit(s) changed.</p>
+${sections.join("\n")}
+</body>
+</html>
+`;
+}
+
+/**
+ * Write this run's changes to <outDir>/change-report.md and change-report.html
+ * and add them to changes.jsonl, which the Excel Changes sheet is built from.
+ * Returns the Markdown report's path.
+ */
+export async function writeChangeReport(outDir: string, diffs: UnitDiff[]): Promise<string> {
+  const markdownPath = path.join(outDir, "change-report.md");
+  await fs.mkdir(outDir, { recursive: true });
+  await fs.writeFile(markdownPath, renderMarkdown(diffs), "utf-8");
+  await fs.writeFile(path.join(outDir, "change-report.html"), renderHtml(diffs), "utf-8");
+
+  const log = changeLog(outDir);
+  const detectedAt = new Date().toISOString();
+  for (const diff of diffs) {
+    await log.upsert({ ...diff, detectedAt });
+  }
+  return markdownPath;
+}
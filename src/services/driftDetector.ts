@@ -0,0 +1,92 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { computeCoverage, COVERAGE_FIELDS, DriftAlert, FieldCoverage } from "../models/coverage.js";
+import { Uoc } from "../models/uoc.js";
+
+export interface DriftOptions {
+  maxDrop?: number;        // Largest tolerated fall in a field's coverage, 0..1 (default: 0.25)
+  minUnits?: number;       // Runs with fewer units are too small to judge (default: 5)
+  failOnDrift?: boolean;   // Throw a DriftError instead of only warning
+}
+
+export interface DriftBaseline extends FieldCoverage {
+  updatedAt: string;
+}
+
+export interface DriftReport {
+  checked: boolean;        // False when the run was too small or there was no baseline yet
+  coverage: FieldCoverage;
+  alerts: DriftAlert[];
+}
+
+export class DriftError extends Error {
+  readonly alerts: DriftAlert[];
+
+  constructor(alerts: DriftAlert[]) {
+    super(`Parser drift detected: ${alerts.map(describeAlert).join(", ")}`);
+    this.name = "DriftError";
+    this.alerts = alerts;
+  }
+}
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+// "elements 98% -> 12%"
+export function describeAlert(alert: DriftAlert): string {
+  return `${alert.field} ${percent(alert.baseline)} -> ${percent(alert.current)}`;
+}
+
+/**
+ * Fields whose coverage fell by at least `maxDrop` since the baseline.
+ */
+export function compareCoverage(baseline: FieldCoverage, current: FieldCoverage, maxDrop = 0.25): DriftAlert[] {
+  return COVERAGE_FIELDS
+    .filter(field => baseline.fields[field] !== undefined)
+    .map(field => ({ field, baseline: baseline.fields[field], current: current.fields[field] }))
+    .filter(alert => alert.baseline - alert.current >= maxDrop);
+}
+
+/**
+ * Compares each run's field coverage (share of units with elements, PE, KE,
+ * release...) with <dataDir>/coverage-baseline.json. Runs without drift become
+ * the new baseline; a run with drift leaves it alone so the next run is
+ * compared with the last good one.
+ */
+export class DriftDetector {
+  private baselinePath: string;
+  private options: Required<DriftOptions>;
+
+  constructor(dataDir: string, options: DriftOptions = {}) {
+    this.baselinePath = path.join(dataDir, "coverage-baseline.json");
+    this.options = { maxDrop: 0.25, minUnits: 5, failOnDrift: false, ...options };
+  }
+
+  async readBaseline(): Promise<DriftBaseline | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.baselinePath, "utf-8"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async check(units: Uoc[]): Promise<DriftReport> {
+    const coverage = computeCoverage(units);
+    if (coverage.units < this.options.minUnits) {
+      return { checked: false, coverage, alerts: [] };
+    }
+
+    const baseline = await this.readBaseline();
+    const alerts = baseline ? compareCoverage(baseline, coverage, this.options.maxDrop) : [];
+
+    if (alerts.length === 0) {
+      const updated: DriftBaseline = { ...coverage, updatedAt: new Date().toISOString() };
+      await fs.mkdir(path.dirname(this.baselinePath), { recursive: true });
+      await fs.writeFile(this.baselinePath, JSON.stringify(updated, null, 2), "utf-8");
+    } else if (this.options.failOnDrift) {
+      throw new DriftError(alerts);
+    }
+
+    return { checked: !!baseline, coverage, alerts };
+  }
+}
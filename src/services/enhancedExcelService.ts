@@ -1,5 +1,14 @@
 import XLSX from 'xlsx-js-style';
-import { Uoc } from '../models/uoc.js';
+import { TextNode, Uoc } from '../models/uoc.js';
+import { flattenEvidence, getEvidenceTree } from '../models/evidence.js';
+import { getCriteria } from '../models/criteria.js';
+import { getMapping } from '../models/mapping.js';
+import { ascedBroadField, getSectorPath } from '../models/classification.js';
+import { Qualification } from '../models/qualification.js';
+import { SkillSet } from '../models/skillSet.js';
+import { ChangeKind } from '../models/unitDiff.js';
+import { JsonlStore } from './jsonlStore.js';
+import { changeLog, describeItem, describeKind } from './changeReport.js';
 import { promises as fs } from 'fs';
 import * as path from 'path';
 
@@ -17,6 +26,14 @@ const COLORS = {
   pe_level2: { fgColor: { rgb: "F8FCF5" } }, // Very light green for PE level 2
 };
 
+// Fills for the Changes sheet, by kind of change
+const CHANGE_COLORS: Record<ChangeKind, any> = {
+  added: { fgColor: { rgb: "E2EFDA" } },      // Green
+  removed: { fgColor: { rgb: "FCE4D6" } },    // Light red
+  reworded: { fgColor: { rgb: "FFF2CC" } },   // Yellow
+  renumbered: { fgColor: { rgb: "D9E1F2" } }, // Light blue
+};
+
 const FONT_BOLD = { bold: true };
 const FONT_NORMAL = { bold: false };
 const ALIGN_LEFT = { horizontal: "left", vertical: "top", wrapText: true };
@@ -45,28 +62,6 @@ export class EnhancedExcelExportService {
     this.defaultFilename = defaultFilename;
   }
 
-  private parseNestedList(text: string): { content: string; level: number }[] {
-    const lines = text.split('\n');
-    const parsed: { content: string; level: number }[] = [];
-
-    for (const line of lines) {
-      if (!line.trim()) continue;
-
-      // Count leading spaces to determine nesting level
-      const leadingSpaces = line.match(/^(\s*)/)?.[1].length || 0;
-      const level = Math.floor(leadingSpaces / 2); // 2 spaces per level
-
-      // Remove bullet points and trim
-      const content = line.replace(/^[\s•◦]+/, '').trim();
-      
-      if (content) {
-        parsed.push({ content, level });
-      }
-    }
-
-    return parsed;
-  }
-
   private getCellStyle(type: string, level: number = 0): any {
     let fill;
     
@@ -127,6 +122,19 @@ export class EnhancedExcelExportService {
           }
         };
       
+      case 'range':
+        return {
+          fill: COLORS.pc,
+          font: FONT_NORMAL,
+          alignment: { ...ALIGN_LEFT, indent: level },
+          border: {
+            top: { style: "thin" },
+            bottom: { style: "thin" },
+            left: { style: "thin" },
+            right: { style: "thin" }
+          }
+        };
+
       default:
         return {
           fill: COLORS.pc,
@@ -211,12 +219,9 @@ export class EnhancedExcelExportService {
       // Add rows for each element and its performance criteria
       if (unit.elements && unit.elements.length > 0) {
         for (const element of unit.elements) {
-          for (let i = 0; i < element.performanceCriteria.length; i++) {
-            const pc = element.performanceCriteria[i];
-            // Parse PC number and text (format: "1.1 Text here")
-            const pcMatch = pc.match(/^(\d+\.\d+)\s+(.+)$/);
-            const pcNumber = pcMatch ? pcMatch[1] : '';
-            const pcText = pcMatch ? pcMatch[2] : pc;
+          const criteria = getCriteria(element);
+          for (let i = 0; i < criteria.length; i++) {
+            const { number: pcNumber, text: pcText } = criteria[i];
 
             newData.push([
               unit.code,
@@ -235,43 +240,37 @@ export class EnhancedExcelExportService {
       }
 
       // Add Knowledge Evidence rows with hierarchy
-      if (unit.knowledgeEvidence) {
-        const keItems = this.parseNestedList(unit.knowledgeEvidence);
-        for (const { content, level } of keItems) {
-          const indent = '  '.repeat(level);
-          newData.push([
-            unit.code,
-            unit.release || '',
-            `${unit.code} ${unit.title}`,
-            '',
-            '',
-            '',
-            '',
-            '',
-            `${indent}${content}`,
-            ''
-          ]);
-        }
+      for (const { node, level } of flattenEvidence(getEvidenceTree(unit, 'K'))) {
+        const indent = '  '.repeat(level);
+        newData.push([
+          unit.code,
+          unit.release || '',
+          `${unit.code} ${unit.title}`,
+          '',
+          '',
+          '',
+          '',
+          '',
+          `${indent}${node.id} ${node.text}`,
+          ''
+        ]);
       }
 
       // Add Performance Evidence rows with hierarchy
-      if (unit.performanceEvidence) {
-        const peItems = this.parseNestedList(unit.performanceEvidence);
-        for (const { content, level } of peItems) {
-          const indent = '  '.repeat(level);
-          newData.push([
-            unit.code,
-            unit.release || '',
-            `${unit.code} ${unit.title}`,
-            '',
-            '',
-            '',
-            '',
-            '',
-            '',
-            `${indent}${content}`
-          ]);
-        }
+      for (const { node, level } of flattenEvidence(getEvidenceTree(unit, 'P'))) {
+        const indent = '  '.repeat(level);
+        newData.push([
+          unit.code,
+          unit.release || '',
+          `${unit.code} ${unit.title}`,
+          '',
+          '',
+          '',
+          '',
+          '',
+          '',
+          `${indent}${node.id} ${node.text}`
+        ]);
       }
     }
 
@@ -340,12 +339,8 @@ export class EnhancedExcelExportService {
     const buildEvidenceSummary = (unitsList: Uoc[]) => {
       // Collect KE/PE arrays per unit (level 0 only)
       const perUnit = unitsList.map(u => {
-        const ke = u.knowledgeEvidence
-          ? this.parseNestedList(u.knowledgeEvidence).filter(i => i.level === 0).map(i => i.content)
-          : [] as string[];
-        const pe = u.performanceEvidence
-          ? this.parseNestedList(u.performanceEvidence).filter(i => i.level === 0).map(i => i.content)
-          : [] as string[];
+        const ke = getEvidenceTree(u, 'K').map(node => node.text);
+        const pe = getEvidenceTree(u, 'P').map(node => node.text);
         return { u, ke, pe };
       });
 
@@ -402,12 +397,22 @@ export class EnhancedExcelExportService {
     for (let i = 0; i < maxP; i++) summaryCols.push({ wch: 50 });
     (wsSummary as any)['!cols'] = summaryCols;
 
+    // Skill set membership from <outputDir>/skillsets.jsonl
+    const skillSets = await new JsonlStore<SkillSet>(this.outputDir, 'skillsets.jsonl').readAll();
+    const skillSetsByUnit = new Map<string, string[]>();
+    for (const skillSet of skillSets) {
+      for (const unit of skillSet.units) {
+        skillSetsByUnit.set(unit.code, [...(skillSetsByUnit.get(unit.code) || []), skillSet.code]);
+      }
+    }
+
     // Build a Units (Horizontal Evidence) sheet that mirrors core columns and appends K1..Kn and P1..Pm
     const buildUnitsHorizontal = (unitsList: Uoc[]) => {
       const header: any[] = [
         'Unit Code',
         'Release',
         'Unit',
+        'Skill Sets',
         'Element',
         'Criteria/Action',
         'Performance Criteria',
@@ -418,24 +423,19 @@ export class EnhancedExcelExportService {
       const rows: any[][] = [header];
 
       for (const unit of unitsList) {
-        const ke = unit.knowledgeEvidence
-          ? this.parseNestedList(unit.knowledgeEvidence).filter(i => i.level === 0).map(i => i.content)
-          : [] as string[];
-        const pe = unit.performanceEvidence
-          ? this.parseNestedList(unit.performanceEvidence).filter(i => i.level === 0).map(i => i.content)
-          : [] as string[];
+        const ke = getEvidenceTree(unit, 'K').map(node => node.text);
+        const pe = getEvidenceTree(unit, 'P').map(node => node.text);
+        const memberOf = (skillSetsByUnit.get(unit.code) || []).join(', ');
 
         if (unit.elements && unit.elements.length > 0) {
           for (const element of unit.elements) {
-            for (const pc of element.performanceCriteria) {
-              const pcMatch = pc.match(/^(\d+\.\d+)\s+(.+)$/);
-              const pcNumber = pcMatch ? pcMatch[1] : '';
-              const pcText = pcMatch ? pcMatch[2] : pc;
+            for (const { number: pcNumber, text: pcText } of getCriteria(element)) {
 
               const row: any[] = [
                 unit.code,
                 unit.release || '',
                 `${unit.code} ${unit.title}`,
+                memberOf,
                 element.element,
                 pcNumber,
                 pcText,
@@ -451,6 +451,7 @@ export class EnhancedExcelExportService {
             unit.code,
             unit.release || '',
             `${unit.code} ${unit.title}`,
+            memberOf,
             '', '', ''
           ];
           for (let i = 0; i < maxK; i++) row.push(ke[i] || '');
@@ -480,6 +481,7 @@ export class EnhancedExcelExportService {
       { wch: 15 }, // Unit Code
       { wch: 12 }, // Release
       { wch: 50 }, // Unit
+      { wch: 20 }, // Skill Sets
       { wch: 40 }, // Element
       { wch: 10 }, // Criteria/Action
       { wch: 60 }, // Performance Criteria
@@ -488,11 +490,375 @@ export class EnhancedExcelExportService {
     for (let i = 0; i < maxP; i++) horizCols.push({ wch: 50 });
     (wsUnitsHoriz as any)['!cols'] = horizCols;
 
-    // Create workbook with three sheets
+    // Build a Range of Conditions sheet: one row per range value, nested values indented
+    const buildRangeOfConditions = (unitsList: Uoc[]) => {
+      const rows: any[][] = [['Unit Code', 'Release', 'Unit', 'Range Variable', 'Value']];
+      const levels: number[] = [0];
+
+      const addValues = (unit: Uoc, variable: string, values: TextNode[], level: number) => {
+        for (const value of values) {
+          rows.push([
+            unit.code,
+            unit.release || '',
+            `${unit.code} ${unit.title}`,
+            variable,
+            `${'  '.repeat(level)}${value.text}`
+          ]);
+          levels.push(level);
+          // Only the first value of each variable repeats the variable name
+          variable = '';
+          addValues(unit, '', value.children, level + 1);
+        }
+      };
+
+      for (const unit of unitsList) {
+        for (const range of unit.rangeOfConditions || []) {
+          addValues(unit, range.variable, range.values, 0);
+        }
+      }
+
+      return { rows, levels };
+    };
+
+    const { rows: rangeRows, levels: rangeLevels } = buildRangeOfConditions(units);
+    const wsRange = XLSX.utils.aoa_to_sheet(rangeRows);
+
+    for (let row = 0; row < rangeRows.length; row++) {
+      for (let col = 0; col < 5; col++) {
+        const addr = XLSX.utils.encode_cell({ r: row, c: col });
+        if (!wsRange[addr]) wsRange[addr] = { t: 's', v: '' } as any;
+        const style = row === 0
+          ? this.getCellStyle('header')
+          : col === 3 && rangeRows[row][3]
+            ? this.getCellStyle('element')
+            : this.getCellStyle(col === 4 ? 'range' : 'default', rangeLevels[row]);
+        (wsRange[addr] as any).s = style;
+      }
+    }
+
+    (wsRange as any)['!cols'] = [
+      { wch: 15 }, // Unit Code
+      { wch: 12 }, // Release
+      { wch: 50 }, // Unit
+      { wch: 40 }, // Range Variable
+      { wch: 70 }, // Value
+    ];
+
+    // Build a Foundation Skills sheet: one row per skill, for LLN mapping
+    const foundationRows: any[][] = [['Unit Code', 'Release', 'Unit', 'Skill', 'Performance Criteria', 'Description']];
+    for (const unit of units) {
+      // Records written before the table was parsed hold a plain string here
+      if (!Array.isArray(unit.foundationSkills)) continue;
+      for (const skill of unit.foundationSkills) {
+        foundationRows.push([
+          unit.code,
+          unit.release || '',
+          `${unit.code} ${unit.title}`,
+          skill.skill,
+          skill.pcRefs.join(', '),
+          skill.description
+        ]);
+      }
+    }
+
+    const wsFoundation = XLSX.utils.aoa_to_sheet(foundationRows);
+
+    for (let row = 0; row < foundationRows.length; row++) {
+      for (let col = 0; col < 6; col++) {
+        const addr = XLSX.utils.encode_cell({ r: row, c: col });
+        if (!wsFoundation[addr]) wsFoundation[addr] = { t: 's', v: '' } as any;
+        const style = row === 0
+          ? this.getCellStyle('header')
+          : col === 3
+            ? this.getCellStyle('element')
+            : this.getCellStyle('default');
+        (wsFoundation[addr] as any).s = style;
+      }
+    }
+
+    (wsFoundation as any)['!cols'] = [
+      { wch: 15 }, // Unit Code
+      { wch: 12 }, // Release
+      { wch: 50 }, // Unit
+      { wch: 30 }, // Skill
+      { wch: 20 }, // Performance Criteria
+      { wch: 70 }, // Description
+    ];
+
+    // Build a Classifications sheet: one row per unit, sorted by sector then field of education
+    const classificationHeader = [
+      'Unit Code', 'Release', 'Unit', 'Status', 'Sector', 'Sub-sector',
+      'Field of Education Code', 'Field of Education', 'Broad Field', 'Occupations'
+    ];
+    const classificationRows: any[][] = units.map(unit => {
+      const [sector = '', ...subSectors] = getSectorPath(unit);
+      const field = unit.fieldOfEducation;
+      const broad = field ? ascedBroadField(field.code) : undefined;
+      return [
+        unit.code,
+        unit.release || '',
+        `${unit.code} ${unit.title}`,
+        unit.status || '',
+        sector,
+        subSectors.join(' – '),
+        field?.code || '',
+        field?.name || '',
+        broad ? `${broad.code} ${broad.name}` : '',
+        (unit.occupations || []).map(o => `${o.code} ${o.name}`).join('; ')
+      ];
+    });
+    // Units without a sector or field sort last
+    const sortKey = (value: string) => value || '\uffff';
+    classificationRows.sort((a, b) =>
+      sortKey(a[4]).localeCompare(sortKey(b[4])) ||
+      sortKey(a[5]).localeCompare(sortKey(b[5])) ||
+      sortKey(a[6]).localeCompare(sortKey(b[6])) ||
+      a[0].localeCompare(b[0])
+    );
+    classificationRows.unshift(classificationHeader);
+
+    const wsClassifications = XLSX.utils.aoa_to_sheet(classificationRows);
+
+    for (let row = 0; row < classificationRows.length; row++) {
+      for (let col = 0; col < classificationHeader.length; col++) {
+        const addr = XLSX.utils.encode_cell({ r: row, c: col });
+        if (!wsClassifications[addr]) wsClassifications[addr] = { t: 's', v: '' } as any;
+        const style = row === 0
+          ? this.getCellStyle('header')
+          : col === 4
+            ? this.getCellStyle('element')
+            : this.getCellStyle('default');
+        (wsClassifications[addr] as any).s = style;
+      }
+    }
+
+    // Filter buttons on the header so the sheet can be sorted and grouped in Excel
+    (wsClassifications as any)['!autofilter'] = {
+      ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: classificationRows.length - 1, c: classificationHeader.length - 1 } })
+    };
+
+    (wsClassifications as any)['!cols'] = [
+      { wch: 15 }, // Unit Code
+      { wch: 12 }, // Release
+      { wch: 50 }, // Unit
+      { wch: 12 }, // Status
+      { wch: 30 }, // Sector
+      { wch: 40 }, // Sub-sector
+      { wch: 12 }, // Field of Education Code
+      { wch: 40 }, // Field of Education
+      { wch: 40 }, // Broad Field
+      { wch: 50 }, // Occupations
+    ];
+
+    // Build a Transition sheet: one row per superseded/superseding counterpart, for transition planning
+    const transitionRows: any[][] = [[
+      'Unit Code', 'Release', 'Unit', 'Status', 'Direction', 'Counterpart Code', 'Counterpart Title',
+      'Counterpart Release', 'Equivalence', 'Notes', 'Date'
+    ]];
+    for (const unit of units) {
+      for (const m of getMapping(unit)) {
+        transitionRows.push([
+          unit.code,
+          unit.release || '',
+          `${unit.code} ${unit.title}`,
+          unit.status || '',
+          m.direction === 'supersedes' ? 'Supersedes' : 'Superseded by',
+          m.code,
+          m.title || '',
+          m.release || '',
+          m.equivalence || '',
+          m.notes || '',
+          m.date || ''
+        ]);
+      }
+    }
+
+    const wsTransition = XLSX.utils.aoa_to_sheet(transitionRows);
+
+    for (let row = 0; row < transitionRows.length; row++) {
+      for (let col = 0; col < 11; col++) {
+        const addr = XLSX.utils.encode_cell({ r: row, c: col });
+        if (!wsTransition[addr]) wsTransition[addr] = { t: 's', v: '' } as any;
+        // Non-equivalent transitions need mapping work, so make them stand out
+        const style = row === 0
+          ? this.getCellStyle('header')
+          : transitionRows[row][8] === 'Not equivalent'
+            ? this.getCellStyle('element')
+            : this.getCellStyle('default');
+        (wsTransition[addr] as any).s = style;
+      }
+    }
+
+    (wsTransition as any)['!cols'] = [
+      { wch: 15 }, // Unit Code
+      { wch: 12 }, // Release
+      { wch: 50 }, // Unit
+      { wch: 12 }, // Status
+      { wch: 14 }, // Direction
+      { wch: 16 }, // Counterpart Code
+      { wch: 50 }, // Counterpart Title
+      { wch: 12 }, // Counterpart Release
+      { wch: 15 }, // Equivalence
+      { wch: 50 }, // Notes
+      { wch: 12 }, // Date
+    ];
+
+    // Build a Qualifications sheet from <outputDir>/qualifications.jsonl: one row per packaged unit
+    const qualifications = await new JsonlStore<Qualification>(this.outputDir, 'qualifications.jsonl').readAll();
+    const scrapedCodes = new Set(units.map(u => u.code));
+    const qualificationRows: any[][] = [[
+      'Qualification Code', 'Qualification', 'Release', 'Status', 'Type', 'Elective Group', 'Unit Code', 'Unit Title', 'Scraped'
+    ]];
+
+    for (const q of qualifications) {
+      const qualification = `${q.code} ${q.title}`;
+      for (const unit of q.coreUnits) {
+        qualificationRows.push([
+          q.code, qualification, q.release || '', q.status || '', 'Core', '',
+          unit.code, unit.title, scrapedCodes.has(unit.code) ? '✓' : ''
+        ]);
+      }
+      for (const group of q.electiveGroups) {
+        for (const unit of group.units) {
+          qualificationRows.push([
+            q.code, qualification, q.release || '', q.status || '', 'Elective', group.name,
+            unit.code, unit.title, scrapedCodes.has(unit.code) ? '✓' : ''
+          ]);
+        }
+      }
+      for (const unit of q.unlabelledUnits ?? []) {
+        qualificationRows.push([
+          q.code, qualification, q.release || '', q.status || '', 'Unlabelled', '',
+          unit.code, unit.title, scrapedCodes.has(unit.code) ? '✓' : ''
+        ]);
+      }
+    }
+
+    const wsQualifications = XLSX.utils.aoa_to_sheet(qualificationRows);
+
+    for (let row = 0; row < qualificationRows.length; row++) {
+      for (let col = 0; col < 9; col++) {
+        const addr = XLSX.utils.encode_cell({ r: row, c: col });
+        if (!wsQualifications[addr]) wsQualifications[addr] = { t: 's', v: '' } as any;
+        const style = row === 0
+          ? this.getCellStyle('header')
+          : qualificationRows[row][4] === 'Core'
+            ? this.getCellStyle('element')
+            : this.getCellStyle('default');
+        (wsQualifications[addr] as any).s = style;
+      }
+    }
+
+    (wsQualifications as any)['!cols'] = [
+      { wch: 15 }, // Qualification Code
+      { wch: 50 }, // Qualification
+      { wch: 12 }, // Release
+      { wch: 12 }, // Status
+      { wch: 10 }, // Type
+      { wch: 30 }, // Elective Group
+      { wch: 15 }, // Unit Code
+      { wch: 60 }, // Unit Title
+      { wch: 8 },  // Scraped
+    ];
+
+    // Build a Skill Sets sheet: one row per member unit
+    const skillSetRows: any[][] = [['Skill Set Code', 'Skill Set', 'Release', 'Status', 'Unit Code', 'Unit Title', 'Scraped']];
+    for (const skillSet of skillSets) {
+      for (const unit of skillSet.units) {
+        skillSetRows.push([
+          skillSet.code, `${skillSet.code} ${skillSet.title}`, skillSet.release || '', skillSet.status || '',
+          unit.code, unit.title, scrapedCodes.has(unit.code) ? '✓' : ''
+        ]);
+      }
+    }
+
+    const wsSkillSets = XLSX.utils.aoa_to_sheet(skillSetRows);
+
+    for (let row = 0; row < skillSetRows.length; row++) {
+      for (let col = 0; col < 7; col++) {
+        const addr = XLSX.utils.encode_cell({ r: row, c: col });
+        if (!wsSkillSets[addr]) wsSkillSets[addr] = { t: 's', v: '' } as any;
+        (wsSkillSets[addr] as any).s = this.getCellStyle(row === 0 ? 'header' : 'default');
+      }
+    }
+
+    (wsSkillSets as any)['!cols'] = [
+      { wch: 15 }, // Skill Set Code
+      { wch: 50 }, // Skill Set
+      { wch: 12 }, // Release
+      { wch: 12 }, // Status
+      { wch: 15 }, // Unit Code
+      { wch: 60 }, // Unit Title
+      { wch: 8 },  // Scraped
+    ];
+
+    // Build a Changes sheet from <outputDir>/changes.jsonl: one row per change, newest first
+    const changeRecords = (await changeLog(this.outputDir).readAll())
+      .sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+    const changeRows: any[][] = [[
+      'Detected', 'Unit Code', 'Unit', 'From Release', 'To Release', 'Item', 'Change', 'Before', 'After'
+    ]];
+    const changeKinds: ChangeKind[] = [];
+    for (const record of changeRecords) {
+      for (const change of record.changes) {
+        changeRows.push([
+          record.detectedAt.slice(0, 10),
+          record.code,
+          `${record.code} ${record.title}`,
+          record.fromRelease || '',
+          record.toRelease || '',
+          describeItem(change),
+          describeKind(change),
+          [change.beforeNumber, change.beforeText].filter(Boolean).join(' '),
+          [change.afterNumber, change.afterText].filter(Boolean).join(' ')
+        ]);
+        changeKinds.push(change.kind);
+      }
+    }
+
+    const wsChanges = XLSX.utils.aoa_to_sheet(changeRows);
+
+    for (let row = 0; row < changeRows.length; row++) {
+      for (let col = 0; col < 9; col++) {
+        const addr = XLSX.utils.encode_cell({ r: row, c: col });
+        if (!wsChanges[addr]) wsChanges[addr] = { t: 's', v: '' } as any;
+        const style = row === 0
+          ? this.getCellStyle('header')
+          : { ...this.getCellStyle('default'), fill: CHANGE_COLORS[changeKinds[row - 1]] };
+        (wsChanges[addr] as any).s = style;
+      }
+    }
+
+    (wsChanges as any)['!cols'] = [
+      { wch: 12 }, // Detected
+      { wch: 15 }, // Unit Code
+      { wch: 50 }, // Unit
+      { wch: 12 }, // From Release
+      { wch: 12 }, // To Release
+      { wch: 26 }, // Item
+      { wch: 20 }, // Change
+      { wch: 60 }, // Before
+      { wch: 60 }, // After
+    ];
+
+    // Create workbook with seven sheets, plus Qualifications, Skill Sets and Changes when there are any
     const wb = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(wb, ws, 'Units');
     XLSX.utils.book_append_sheet(wb, wsSummary, 'Evidence (Horizontal)');
     XLSX.utils.book_append_sheet(wb, wsUnitsHoriz, 'Units (Horizontal)');
+    XLSX.utils.book_append_sheet(wb, wsRange, 'Range of Conditions');
+    XLSX.utils.book_append_sheet(wb, wsFoundation, 'Foundation Skills');
+    XLSX.utils.book_append_sheet(wb, wsTransition, 'Transition');
+    XLSX.utils.book_append_sheet(wb, wsClassifications, 'Classifications');
+    if (qualifications.length > 0) {
+      XLSX.utils.book_append_sheet(wb, wsQualifications, 'Qualifications');
+    }
+    if (skillSets.length > 0) {
+      XLSX.utils.book_append_sheet(wb, wsSkillSets, 'Skill Sets');
+    }
+    if (changeRows.length > 1) {
+      XLSX.utils.book_append_sheet(wb, wsChanges, 'Changes');
+    }
 
     // Write file
     XLSX.writeFile(wb, filepath);
@@ -506,6 +872,19 @@ export class EnhancedExcelExportService {
     console.log(`   Total rows (Units sheet): ${allData.length - 1}`); // Subtract header
     console.log(`   Evidence summary columns: K1..K${maxK}, P1..P${maxP}`);
     console.log(`   Units (Horizontal) rows: ${unitsHorizontalRows.length - 1}`);
+    console.log(`   Range of Conditions rows: ${rangeRows.length - 1}`);
+    console.log(`   Foundation Skills rows: ${foundationRows.length - 1}`);
+    console.log(`   Transition rows: ${transitionRows.length - 1}`);
+    console.log(`   Classifications rows: ${classificationRows.length - 1}`);
+    if (qualifications.length > 0) {
+      console.log(`   Qualifications: ${qualifications.length} (${qualificationRows.length - 1} unit rows)`);
+    }
+    if (skillSets.length > 0) {
+      console.log(`   Skill Sets: ${skillSets.length} (${skillSetRows.length - 1} unit rows)`);
+    }
+    if (changeRows.length > 1) {
+      console.log(`   Changes: ${changeRows.length - 1} (${changeRecords.length} unit diffs)`);
+    }
   }
 
   async exportFromJsonl(jsonlPath: string, excelFilename?: string, append: boolean = true): Promise<void> {
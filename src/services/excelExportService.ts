@@ -1,5 +1,7 @@
 import XLSX from 'xlsx';
 import { Uoc } from '../models/uoc.js';
+import { flattenEvidence, getEvidenceTree } from '../models/evidence.js';
+import { getCriteria } from '../models/criteria.js';
 import { promises as fs } from 'fs';
 import * as path from 'path';
 
@@ -40,12 +42,9 @@ export class ExcelExportService {
       // Add rows for each element and its performance criteria
       if (unit.elements && unit.elements.length > 0) {
         for (const element of unit.elements) {
-          for (let i = 0; i < element.performanceCriteria.length; i++) {
-            const pc = element.performanceCriteria[i];
-            // Parse PC number and text (format: "1.1 Text here")
-            const pcMatch = pc.match(/^(\d+\.\d+)\s+(.+)$/);
-            const pcNumber = pcMatch ? pcMatch[1] : '';
-            const pcText = pcMatch ? pcMatch[2] : pc;
+          const criteria = getCriteria(element);
+          for (let i = 0; i < criteria.length; i++) {
+            const { number: pcNumber, text: pcText } = criteria[i];
 
             newRows.push({
               'Unit Code': unit.code,
@@ -64,49 +63,35 @@ export class ExcelExportService {
       }
 
       // Add Knowledge Evidence rows
-      if (unit.knowledgeEvidence) {
-        const keLines = unit.knowledgeEvidence.split('\n');
-        for (const line of keLines) {
-          // Remove bullet points and extract text
-          const cleanLine = line.replace(/^[•◦\s]+/, '').trim();
-          if (cleanLine) {
-            newRows.push({
-              'Unit Code': unit.code,
-              'Release': unit.release || '',
-              'Unit': `${unit.code} ${unit.title}`,
-              'Element': '',
-              'Criteria/Action': '',
-              'Performance Criteria': '',
-              'AMPA Conditions': '',
-              'Mapping Comment': '',
-              'Knowledge/Assessment': cleanLine,
-              'Performance Evidence': ''
-            });
-          }
-        }
+      for (const { node, level } of flattenEvidence(getEvidenceTree(unit, 'K'))) {
+        newRows.push({
+          'Unit Code': unit.code,
+          'Release': unit.release || '',
+          'Unit': `${unit.code} ${unit.title}`,
+          'Element': '',
+          'Criteria/Action': '',
+          'Performance Criteria': '',
+          'AMPA Conditions': '',
+          'Mapping Comment': '',
+          'Knowledge/Assessment': `${'  '.repeat(level)}${node.id} ${node.text}`,
+          'Performance Evidence': ''
+        });
       }
 
       // Add Performance Evidence rows
-      if (unit.performanceEvidence) {
-        const peLines = unit.performanceEvidence.split('\n');
-        for (const line of peLines) {
-          // Remove bullet points and extract text
-          const cleanLine = line.replace(/^[•◦\s]+/, '').trim();
-          if (cleanLine) {
-            newRows.push({
-              'Unit Code': unit.code,
-              'Release': unit.release || '',
-              'Unit': `${unit.code} ${unit.title}`,
-              'Element': '',
-              'Criteria/Action': '',
-              'Performance Criteria': '',
-              'AMPA Conditions': '',
-              'Mapping Comment': '',
-              'Knowledge/Assessment': '',
-              'Performance Evidence': cleanLine
-            });
-          }
-        }
+      for (const { node, level } of flattenEvidence(getEvidenceTree(unit, 'P'))) {
+        newRows.push({
+          'Unit Code': unit.code,
+          'Release': unit.release || '',
+          'Unit': `${unit.code} ${unit.title}`,
+          'Element': '',
+          'Criteria/Action': '',
+          'Performance Criteria': '',
+          'AMPA Conditions': '',
+          'Mapping Comment': '',
+          'Knowledge/Assessment': '',
+          'Performance Evidence': `${'  '.repeat(level)}${node.id} ${node.text}`
+        });
       }
 
       // Add Assessment Conditions if available
@@ -1,88 +1,127 @@
 import { promises as fs } from "fs";
 import path from "path";
 import { Uoc } from "../models/uoc.js";
+import { ReviewEntry, WEAK_CONFIDENCE } from "../models/provenance.js";
+import { CoverageField, lostFields } from "../models/coverage.js";
+import { diffUnits, UnitDiff } from "../models/unitDiff.js";
+import { UnitRepository, unitContentHash } from "./unitRepository.js";
+import { writeChangeReport } from "./changeReport.js";
+
+export interface ExportOptions {
+  allowDegraded?: boolean;  // Let a record that lost fields replace the stored one
+}
+
+// Thrown instead of overwriting a stored unit with a record that lost fields it had
+export class DegradedRecordError extends Error {
+  readonly code: string;
+  readonly lost: CoverageField[];
+
+  constructor(code: string, lost: CoverageField[]) {
+    super(`Refusing to overwrite ${code}: the new record has no ${lost.join(", ")}`);
+    this.name = "DegradedRecordError";
+    this.code = code;
+    this.lost = lost;
+  }
+}
 
 export class ExportService {
-  private outDir: string;
-  private jsonlPath: string;
-  private existingCodes: Set<string>;
+  readonly outDir: string;
+  private repository?: UnitRepository;
+  private allowDegraded: boolean;
+  private changes: UnitDiff[] = [];
 
-  constructor(outDir = "data") {
+  constructor(outDir = "data", options: ExportOptions = {}) {
     this.outDir = outDir;
-    this.jsonlPath = path.join(outDir, "uoc.jsonl");
-    this.existingCodes = new Set();
+    this.allowDegraded = options.allowDegraded ?? false;
   }
 
   async init() {
-    // Create output directory if it doesn't exist
-    await fs.mkdir(this.outDir, { recursive: true });
-    
-    // Load existing unit codes from JSONL file
-    try {
-      const content = await fs.readFile(this.jsonlPath, 'utf-8');
-      const lines = content.trim().split('\n').filter(Boolean);
-      
-      for (const line of lines) {
-        try {
-          const unit = JSON.parse(line);
-          if (unit.code) {
-            this.existingCodes.add(unit.code);
-          }
-        } catch (e) {
-          // Skip invalid JSON lines
+    console.log(`📋 ${this.units().count()} existing units in ${this.units().dbPath}`);
+  }
+
+  /**
+   * Store a unit as its code's current record. A record for an earlier
+   * release is kept as an archived release. When the unit's content changed,
+   * what changed is kept for the next change report (takeChanges).
+   */
+  async writeUnit(item: Uoc) {
+    const repository = this.units();
+    // No awaits inside: the check and the write see the same stored record
+    repository.transaction(() => {
+      const stored = repository.get(item.code);
+      if (stored) {
+        if (!this.allowDegraded) {
+          const lost = lostFields(stored, item);
+          if (lost.length > 0) throw new DegradedRecordError(item.code, lost);
+        }
+
+        console.log(`🔄 Updating existing unit: ${item.code}`);
+        if (stored.release && stored.release !== item.release) {
+          console.log(`🗄️  Archiving ${item.code} ${stored.release}`);
+        }
+
+        if (unitContentHash(stored) !== unitContentHash(item)) {
+          const diff = diffUnits(stored, item);
+          if (diff.changes.length > 0) this.changes.push(diff);
         }
       }
-      
-      console.log(`📋 Loaded ${this.existingCodes.size} existing units from JSONL`);
-    } catch (error: any) {
-      if (error.code === 'ENOENT') {
-        console.log(`📄 Creating new JSONL file`);
-        // Create empty file
-        await fs.writeFile(this.jsonlPath, "", 'utf-8');
-      } else {
-        console.log(`⚠️  Error reading JSONL: ${error.message}`);
-      }
-    }
+      repository.upsert(item);
+    });
+  }
+
+  /**
+   * Store a specific release of a unit, keyed by code and release, without
+   * touching the current record.
+   */
+  async writeRelease(item: Uoc) {
+    this.units().upsert(item, { current: false });
+  }
+
+  /**
+   * Export the stored units to uoc.jsonl (current records) and releases.jsonl
+   * (older releases) for the Excel export and other readers of those files.
+   */
+  async exportJsonl(): Promise<{ units: number; releases: number }> {
+    return this.units().exportJsonl();
   }
 
-  async writeJsonl(item: Uoc) {
-    // Check if unit already exists
-    if (this.existingCodes.has(item.code)) {
-      console.log(`🔄 Updating existing unit: ${item.code}`);
-      // Remove old entry and update
-      await this.removeUnit(item.code);
-    }
-    
-    // Add to file
-    const line = JSON.stringify(item) + "\n";
-    await fs.appendFile(this.jsonlPath, line, "utf-8");
-    
-    // Track this code
-    this.existingCodes.add(item.code);
+  // Diffs of the units whose content changed since the last call
+  takeChanges(): UnitDiff[] {
+    return this.changes.splice(0);
   }
 
   /**
-   * Remove a unit from JSONL file (for updates/overrides)
+   * Write change-report.md and change-report.html for these diffs and add
+   * them to changes.jsonl. Returns the Markdown report's path.
    */
-  private async removeUnit(code: string) {
-    try {
-      const content = await fs.readFile(this.jsonlPath, 'utf-8');
-      const lines = content.trim().split('\n').filter(Boolean);
-      
-      // Filter out the old entry
-      const updatedLines = lines.filter(line => {
-        try {
-          const unit = JSON.parse(line);
-          return unit.code !== code;
-        } catch (e) {
-          return true; // Keep invalid lines
-        }
-      });
-      
-      // Rewrite file
-      await fs.writeFile(this.jsonlPath, updatedLines.join('\n') + '\n', 'utf-8');
-    } catch (error) {
-      console.log(`⚠️  Could not remove old unit ${code}: ${error}`);
-    }
+  async writeChangeReport(diffs: UnitDiff[]): Promise<string> {
+    return writeChangeReport(this.outDir, diffs);
+  }
+
+  close() {
+    this.repository?.close();
+    this.repository = undefined;
+  }
+
+  /**
+   * Write <outDir>/review-report.json listing the units whose fields were
+   * extracted with low confidence in this run. Returns the report's path.
+   */
+  async writeReviewReport(entries: ReviewEntry[]): Promise<string> {
+    const reportPath = path.join(this.outDir, "review-report.json");
+    const report = {
+      generatedAt: new Date().toISOString(),
+      threshold: WEAK_CONFIDENCE,
+      units: entries.length,
+      entries
+    };
+    await fs.mkdir(this.outDir, { recursive: true });
+    await fs.writeFile(reportPath, JSON.stringify(report, null, 2), "utf-8");
+    return reportPath;
+  }
+
+  private units(): UnitRepository {
+    this.repository ??= UnitRepository.open(this.outDir);
+    return this.repository;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,47 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Small keyed JSONL file for records other than units (qualifications, skill
+ * sets), which live in UnitRepository. Each record is stored once under its
+ * key, the code unless a key function is given.
+ */
+export class JsonlStore<T extends { code: string }> {
+  private filepath: string;
+  private keyOf: (record: T) => string;
+
+  constructor(outDir: string, filename: string, keyOf: (record: T) => string = r => r.code) {
+    this.filepath = path.join(outDir, filename);
+    this.keyOf = keyOf;
+  }
+
+  get path(): string {
+    return this.filepath;
+  }
+
+  async readAll(): Promise<T[]> {
+    try {
+      const content = await fs.readFile(this.filepath, "utf-8");
+      const records: T[] = [];
+      for (const line of content.trim().split("\n").filter(Boolean)) {
+        try {
+          records.push(JSON.parse(line));
+        } catch (e) {
+          // Skip invalid JSON lines
+        }
+      }
+      return records;
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  async upsert(record: T): Promise<void> {
+    const key = this.keyOf(record);
+    const records = (await this.readAll()).filter(r => this.keyOf(r) !== key);
+    records.push(record);
+    await fs.mkdir(path.dirname(this.filepath), { recursive: true });
+    await fs.writeFile(this.filepath, records.map(r => JSON.stringify(r)).join("\n") + "\n", "utf-8");
+  }
+}
@@ -0,0 +1,57 @@
+import { PageSource } from "../pageSource.js";
+import { parseSkillSetHtml } from "../parsers/skillSetParser.js";
+import { SkillSet } from "../models/skillSet.js";
+import { classifyError } from "../errors.js";
+import { JsonlStore } from "./jsonlStore.js";
+import { siteBaseUrl } from "../siteUrls.js";
+
+export function skillSetUrl(code: string, baseUrl = siteBaseUrl()): string {
+  return `${baseUrl.replace(/\/+$/, "")}/training/details/${code}/skillsetdetails`;
+}
+
+export interface SkillSetResolution {
+  skillSets: SkillSet[];
+  unitCodes: string[];                        // Member units of every resolved skill set
+  failed: { code: string; error: string }[];
+}
+
+/**
+ * Fetches skill set pages, stores them in <dataDir>/skillsets.jsonl and
+ * returns their member units so the sync commands can scrape them.
+ */
+export class SkillSetService {
+  private store: JsonlStore<SkillSet>;
+
+  constructor(private pageSource: PageSource, dataDir: string, private baseUrl = siteBaseUrl()) {
+    this.store = new JsonlStore<SkillSet>(dataDir, "skillsets.jsonl");
+  }
+
+  async resolve(codes: string[]): Promise<SkillSetResolution> {
+    const resolution: SkillSetResolution = { skillSets: [], unitCodes: [], failed: [] };
+
+    for (const code of codes) {
+      const url = skillSetUrl(code, this.baseUrl);
+      console.log(`🧩 Fetching skill set ${code}...`);
+
+      try {
+        const skillSet = parseSkillSetHtml(await this.pageSource.get(url), url);
+        if (skillSet.code === "Unknown") {
+          resolution.failed.push({ code, error: "Page did not contain a skill set header" });
+          console.log(`   ❌ No skill set details found`);
+          continue;
+        }
+
+        console.log(`   ✅ ${skillSet.code} - ${skillSet.title} (${skillSet.units.length} units)`);
+        await this.store.upsert(skillSet);
+        resolution.skillSets.push(skillSet);
+      } catch (error: any) {
+        const message = `${classifyError(error)}: ${error.message || error}`;
+        resolution.failed.push({ code, error: message });
+        console.log(`   ⚠️  ${message}`);
+      }
+    }
+
+    resolution.unitCodes = [...new Set(resolution.skillSets.flatMap(s => s.units.map(u => u.code)))];
+    return resolution;
+  }
+}
@@ -0,0 +1,132 @@
+import { promises as fs } from "fs";
+import { createHash } from "crypto";
+import path from "path";
+
+export interface PageSnapshot {
+  url: string;
+  fetchedAt: string;    // ISO timestamp of the download
+  contentHash: string;  // sha256 of the HTML
+  html: string;
+}
+
+export type SnapshotCacheOptions = {
+  maxAgeMs?: number;    // Entries older than this are treated as stale (0 = always stale)
+};
+
+export const DEFAULT_CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export function hashContent(html: string): string {
+  return createHash("sha256").update(html).digest("hex");
+}
+
+/**
+ * Parse a --max-age value. Plain numbers are hours; s/m/h/d suffixes are accepted
+ * (e.g. "30m", "12h", "7d").
+ */
+export function parseMaxAge(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([smhd]?)$/i);
+  if (!match) {
+    throw new Error(`Invalid max age "${value}" (expected e.g. 12, 30m, 12h or 7d)`);
+  }
+
+  const amount = parseFloat(match[1]);
+  const unitMs: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000
+  };
+  return Math.round(amount * unitMs[match[2].toLowerCase() || "h"]);
+}
+
+/**
+ * Disk-backed HTML snapshot cache, one JSON file per URL under <dataDir>/cache/pages.
+ * Survives across runs so re-scrapes can be served without hitting training.gov.au.
+ */
+export class SnapshotCache {
+  private cacheDir: string;
+  private maxAgeMs: number;
+
+  constructor(dataDir = "data", opts?: SnapshotCacheOptions) {
+    this.cacheDir = path.join(dataDir, "cache", "pages");
+    this.maxAgeMs = opts?.maxAgeMs ?? DEFAULT_CACHE_MAX_AGE_MS;
+  }
+
+  private fileFor(url: string): string {
+    const key = createHash("sha1").update(url).digest("hex");
+    return path.join(this.cacheDir, `${key}.json`);
+  }
+
+  isFresh(snapshot: PageSnapshot): boolean {
+    const age = Date.now() - new Date(snapshot.fetchedAt).getTime();
+    return age >= 0 && age < this.maxAgeMs;
+  }
+
+  /**
+   * Read a snapshot regardless of its age.
+   */
+  async read(url: string): Promise<PageSnapshot | undefined> {
+    try {
+      const content = await fs.readFile(this.fileFor(url), "utf-8");
+      const snapshot = JSON.parse(content) as PageSnapshot;
+      return snapshot.url === url ? snapshot : undefined;
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        console.log(`⚠️  Ignoring unreadable cache entry for ${url}: ${error.message}`);
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Read a snapshot only if it is within the configured TTL.
+   */
+  async get(url: string): Promise<PageSnapshot | undefined> {
+    const snapshot = await this.read(url);
+    if (!snapshot || !this.isFresh(snapshot)) return undefined;
+    return snapshot;
+  }
+
+  /**
+   * Read every snapshot in the cache regardless of age (used for offline re-parsing).
+   */
+  async list(): Promise<PageSnapshot[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.cacheDir);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+
+    const snapshots: PageSnapshot[] = [];
+    for (const file of files.filter(f => f.endsWith(".json"))) {
+      try {
+        const content = await fs.readFile(path.join(this.cacheDir, file), "utf-8");
+        snapshots.push(JSON.parse(content) as PageSnapshot);
+      } catch (error: any) {
+        console.log(`⚠️  Skipping unreadable cache entry ${file}: ${error.message}`);
+      }
+    }
+    return snapshots;
+  }
+
+  async put(url: string, html: string): Promise<PageSnapshot> {
+    const snapshot: PageSnapshot = {
+      url,
+      fetchedAt: new Date().toISOString(),
+      contentHash: hashContent(html),
+      html
+    };
+
+    await fs.mkdir(this.cacheDir, { recursive: true });
+
+    // Write to a temp file first so concurrent workers never see a partial entry
+    const file = this.fileFor(url);
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(snapshot), "utf-8");
+    await fs.rename(tmp, file);
+
+    return snapshot;
+  }
+}
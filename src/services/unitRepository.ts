@@ -0,0 +1,375 @@
+import Database from "better-sqlite3";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import * as path from "path";
+import { Uoc } from "../models/uoc.js";
+import { hashContent } from "./snapshotCache.js";
+
+export interface UpsertOptions {
+  current?: boolean;  // Make this the unit's current record (default); false stores an older release only
+}
+
+// One stored version of a unit: a scrape whose content differed from the version before it
+export interface UnitVersion {
+  code: string;
+  release: string;
+  fetchedAt: string;
+  contentHash: string;
+  current: boolean;     // Stored as the current record, not as an older release scraped on its own
+  recordedAt: string;
+}
+
+type UnitRow = { data: string };
+
+type VersionRow = {
+  code: string;
+  release: string;
+  fetched_at: string;
+  content_hash: string;
+  current: number;
+  recorded_at: string;
+};
+
+// Fields that change with every fetch or parser run rather than with the unit's content
+const UNHASHED_FIELDS = ["lastFetchedAt", "parserProfile", "provenance"];
+
+export function unitContentHash(unit: Uoc): string {
+  const content: Record<string, unknown> = { ...unit };
+  UNHASHED_FIELDS.forEach(field => delete content[field]);
+  return hashContent(JSON.stringify(content));
+}
+
+/**
+ * Latest moment a date given to asOf() covers: a plain date ("2025-03-01")
+ * means the end of that day (UTC).
+ */
+export function asOfCutoff(date: string | Date): string {
+  const text = date instanceof Date ? date.toISOString() : date.trim();
+  const cutoff = new Date(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T23:59:59.999Z` : text);
+  if (isNaN(cutoff.getTime())) throw new Error(`Invalid date: "${text}"`);
+  return cutoff.toISOString();
+}
+
+/**
+ * Unit records in an SQLite database (<dataDir>/units.db), one row per unit
+ * release. Each code has at most one current row; rows left behind when a
+ * newer release is stored are kept as its archived releases.
+ *
+ * Every distinct scrape is also kept in unit_history, keyed by code, release
+ * and fetch time. A scrape whose content hash matches the previous version of
+ * the same code and release is not stored again.
+ *
+ * Every write runs in its own transaction, so crawler workers and separate
+ * processes can store units at the same time without losing records.
+ * uoc.jsonl and releases.jsonl are exported from here for the tools that
+ * read them (exportJsonl). On first use an existing uoc.jsonl and
+ * releases.jsonl are imported.
+ *
+ * The better-sqlite3 driver is synchronous, and so is this class.
+ */
+export class UnitRepository {
+  readonly dbPath: string;
+  private dataDir: string;
+  private db: Database.Database;
+
+  private constructor(dataDir: string) {
+    this.dataDir = dataDir;
+    this.dbPath = path.join(dataDir, "units.db");
+    mkdirSync(dataDir, { recursive: true });
+
+    this.db = new Database(this.dbPath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("busy_timeout = 10000");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS units (
+        code        TEXT NOT NULL,
+        release     TEXT NOT NULL DEFAULT '',
+        current     INTEGER NOT NULL DEFAULT 1,
+        status      TEXT,
+        title       TEXT,
+        unit_sector TEXT,
+        data        TEXT NOT NULL,
+        updated_at  TEXT NOT NULL,
+        PRIMARY KEY (code, release)
+      );
+      CREATE INDEX IF NOT EXISTS units_current ON units (current, code);
+      CREATE INDEX IF NOT EXISTS units_status ON units (status);
+      CREATE TABLE IF NOT EXISTS unit_history (
+        id           INTEGER PRIMARY KEY AUTOINCREMENT,
+        code         TEXT NOT NULL,
+        release      TEXT NOT NULL DEFAULT '',
+        fetched_at   TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        current      INTEGER NOT NULL,
+        data         TEXT NOT NULL,
+        recorded_at  TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS unit_history_code ON unit_history (code, fetched_at);
+      CREATE TABLE IF NOT EXISTS meta (
+        key   TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `);
+  }
+
+  /**
+   * Open (creating if needed) the repository in a data directory, importing
+   * its JSONL files the first time.
+   */
+  static open(dataDir = "data"): UnitRepository {
+    const repository = new UnitRepository(dataDir);
+    repository.migrateJsonl();
+    repository.seedHistory();
+    return repository;
+  }
+
+  /**
+   * Run `fn` in one write transaction. Nested calls join the outer one.
+   */
+  transaction<T>(fn: () => T): T {
+    if (this.db.inTransaction) return fn();
+    return this.db.transaction(fn).immediate();
+  }
+
+  /**
+   * Insert or replace the record for the unit's code and release. A current
+   * record demotes the code's other releases to archived. The unit is added
+   * to its history unless its content is unchanged.
+   */
+  upsert(unit: Uoc, options: UpsertOptions = {}): void {
+    const current = options.current ?? true;
+    const release = unit.release ?? "";
+
+    this.transaction(() => {
+      if (current) {
+        this.db.prepare("UPDATE units SET current = 0 WHERE code = ? AND release <> ?").run(unit.code, release);
+      }
+      this.db.prepare(`
+        INSERT INTO units (code, release, current, status, title, unit_sector, data, updated_at)
+        VALUES (@code, @release, @current, @status, @title, @unitSector, @data, @updatedAt)
+        ON CONFLICT (code, release) DO UPDATE SET
+          current = MAX(units.current, excluded.current),
+          status = excluded.status,
+          title = excluded.title,
+          unit_sector = excluded.unit_sector,
+          data = excluded.data,
+          updated_at = excluded.updated_at
+      `).run({
+        code: unit.code,
+        release,
+        current: current ? 1 : 0,
+        status: unit.status ?? null,
+        title: unit.title,
+        unitSector: unit.unitSector ?? null,
+        data: JSON.stringify(unit),
+        updatedAt: new Date().toISOString()
+      });
+      this.recordVersion(unit, current);
+    });
+  }
+
+  // Current record of a unit
+  get(code: string): Uoc | undefined {
+    const row = this.db.prepare("SELECT data FROM units WHERE code = ? AND current = 1").get(code) as UnitRow | undefined;
+    return row ? JSON.parse(row.data) : undefined;
+  }
+
+  // A stored release of a unit, current or archived, e.g. getRelease("BSBTWK201", "Release 1")
+  getRelease(code: string, release: string): Uoc | undefined {
+    const row = this.db.prepare("SELECT data FROM units WHERE code = ? AND release = ?").get(code, release) as UnitRow | undefined;
+    return row ? JSON.parse(row.data) : undefined;
+  }
+
+  // Every stored release of a unit, current first
+  releases(code: string): Uoc[] {
+    return this.rows("SELECT data FROM units WHERE code = ? ORDER BY current DESC, release DESC", code);
+  }
+
+  // Current records, by code
+  all(): Uoc[] {
+    return this.rows("SELECT data FROM units WHERE current = 1 ORDER BY code");
+  }
+
+  codes(): string[] {
+    return (this.db.prepare("SELECT code FROM units WHERE current = 1 ORDER BY code").all() as { code: string }[])
+      .map(row => row.code);
+  }
+
+  count(): number {
+    return (this.db.prepare("SELECT COUNT(*) AS n FROM units WHERE current = 1").get() as { n: number }).n;
+  }
+
+  // Current units with a status, e.g. "Current" or "Superseded"
+  findByStatus(status: string): Uoc[] {
+    return this.rows("SELECT data FROM units WHERE current = 1 AND status = ? COLLATE NOCASE ORDER BY code", status);
+  }
+
+  /**
+   * Current units in a sector: either the full unit sector or any level of
+   * its sector path ("Teamwork and Relationships").
+   */
+  findBySector(sector: string): Uoc[] {
+    return this.rows(`
+      SELECT data FROM units
+      WHERE current = 1 AND (
+        unit_sector = @sector COLLATE NOCASE
+        OR EXISTS (SELECT 1 FROM json_each(units.data, '$.sectorPath') WHERE value = @sector COLLATE NOCASE)
+      )
+      ORDER BY code
+    `, { sector });
+  }
+
+  // Current units that list `code` as a prerequisite
+  findByPrerequisite(code: string): Uoc[] {
+    return this.rows(`
+      SELECT data FROM units
+      WHERE current = 1
+        AND EXISTS (SELECT 1 FROM json_each(units.data, '$.prerequisites') WHERE value = ? COLLATE NOCASE)
+      ORDER BY code
+    `, code);
+  }
+
+  // Stored versions of a unit, newest first
+  history(code: string): UnitVersion[] {
+    const rows = this.db.prepare(`
+      SELECT code, release, fetched_at, content_hash, current, recorded_at FROM unit_history
+      WHERE code = ? ORDER BY fetched_at DESC, id DESC
+    `).all(code) as VersionRow[];
+    return rows.map(row => ({
+      code: row.code,
+      release: row.release,
+      fetchedAt: row.fetched_at,
+      contentHash: row.content_hash,
+      current: row.current === 1,
+      recordedAt: row.recorded_at
+    }));
+  }
+
+  // A stored version by its content hash, or a unique prefix of it
+  version(code: string, contentHash: string): Uoc | undefined {
+    const rows = this.db.prepare(`
+      SELECT DISTINCT content_hash, data FROM unit_history
+      WHERE code = ? AND content_hash LIKE ? || '%' ORDER BY id DESC
+    `).all(code, contentHash.toLowerCase()) as (UnitRow & { content_hash: string })[];
+    if (new Set(rows.map(row => row.content_hash)).size > 1) {
+      throw new Error(`"${contentHash}" matches more than one version of ${code}`);
+    }
+    return rows[0] ? JSON.parse(rows[0].data) : undefined;
+  }
+
+  /**
+   * The unit as stored on a date: the newest version fetched as the current
+   * record on or before it. Undefined when the unit had not been scraped yet.
+   */
+  asOf(code: string, date: string | Date): Uoc | undefined {
+    const row = this.db.prepare(`
+      SELECT data FROM unit_history
+      WHERE code = ? AND current = 1 AND fetched_at <= ?
+      ORDER BY fetched_at DESC, id DESC LIMIT 1
+    `).get(code, asOfCutoff(date)) as UnitRow | undefined;
+    return row ? JSON.parse(row.data) : undefined;
+  }
+
+  /**
+   * Write the current records to <dataDir>/uoc.jsonl and the archived ones to
+   * releases.jsonl, the files the Excel export and older tools read. Each file
+   * is written in full and then renamed over the old one.
+   */
+  exportJsonl(): { units: number; releases: number } {
+    const current = this.all();
+    const archived = this.rows("SELECT data FROM units WHERE current = 0 ORDER BY code, release");
+    this.writeJsonlFile("uoc.jsonl", current);
+    this.writeJsonlFile("releases.jsonl", archived);
+    return { units: current.length, releases: archived.length };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private rows(sql: string, ...params: unknown[]): Uoc[] {
+    return (this.db.prepare(sql).all(...params) as UnitRow[]).map(row => JSON.parse(row.data));
+  }
+
+  private writeJsonlFile(filename: string, units: Uoc[]): void {
+    const target = path.join(this.dataDir, filename);
+    const tmp = `${target}.${process.pid}.tmp`;
+    writeFileSync(tmp, units.map(unit => JSON.stringify(unit) + "\n").join(""), "utf-8");
+    renameSync(tmp, target);
+  }
+
+  // Import uoc.jsonl (current records) and releases.jsonl (archived) into a new database
+  private migrateJsonl(): void {
+    const migrated = this.db.prepare("SELECT value FROM meta WHERE key = 'migratedAt'").get();
+    if (migrated) return;
+
+    this.transaction(() => {
+      let imported = 0;
+      if (this.countRows() === 0) {
+        for (const unit of this.readJsonlFile("uoc.jsonl")) {
+          this.upsert(unit);
+          imported++;
+        }
+        for (const unit of this.readJsonlFile("releases.jsonl")) {
+          // The current record wins when both files hold the same release
+          if (!this.getRelease(unit.code, unit.release ?? "")) {
+            this.upsert(unit, { current: false });
+            imported++;
+          }
+        }
+      }
+      this.db.prepare("INSERT INTO meta (key, value) VALUES ('migratedAt', ?)").run(new Date().toISOString());
+      if (imported > 0) {
+        console.log(`📦 Imported ${imported} unit record(s) from JSONL into ${this.dbPath}`);
+      }
+    });
+  }
+
+  private recordVersion(unit: Uoc, current: boolean): void {
+    const release = unit.release ?? "";
+    const contentHash = unitContentHash(unit);
+    const previous = this.db.prepare(`
+      SELECT content_hash FROM unit_history WHERE code = ? AND release = ? ORDER BY id DESC LIMIT 1
+    `).get(unit.code, release) as { content_hash: string } | undefined;
+    if (previous?.content_hash === contentHash) return;
+
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO unit_history (code, release, fetched_at, content_hash, current, data, recorded_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(unit.code, release, unit.lastFetchedAt || now, contentHash, current ? 1 : 0, JSON.stringify(unit), now);
+  }
+
+  // Start the history of a store created before it was kept from the records it holds
+  private seedHistory(): void {
+    const seeded = this.db.prepare("SELECT value FROM meta WHERE key = 'historySeededAt'").get();
+    if (seeded) return;
+
+    this.transaction(() => {
+      const historyRows = (this.db.prepare("SELECT COUNT(*) AS n FROM unit_history").get() as { n: number }).n;
+      if (historyRows === 0) {
+        const rows = this.db.prepare("SELECT data, current FROM units ORDER BY code, current, release").all() as (UnitRow & { current: number })[];
+        rows.forEach(row => this.recordVersion(JSON.parse(row.data), row.current === 1));
+      }
+      this.db.prepare("INSERT INTO meta (key, value) VALUES ('historySeededAt', ?)").run(new Date().toISOString());
+    });
+  }
+
+  private countRows(): number {
+    return (this.db.prepare("SELECT COUNT(*) AS n FROM units").get() as { n: number }).n;
+  }
+
+  private readJsonlFile(filename: string): Uoc[] {
+    const file = path.join(this.dataDir, filename);
+    if (!existsSync(file)) return [];
+    const units: Uoc[] = [];
+    for (const line of readFileSync(file, "utf-8").split("\n").filter(Boolean)) {
+      try {
+        const unit = JSON.parse(line);
+        if (unit.code) units.push(unit);
+      } catch (e) {
+        // Skip invalid JSON lines
+      }
+    }
+    return units;
+  }
+}
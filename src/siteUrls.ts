@@ -0,0 +1,25 @@
+/**
+ * Addresses of training.gov.au pages. The site can be swapped for another
+ * host (such as the local stand-in server in standInServer.ts) with the
+ * TGA_BASE_URL environment variable, or per sync run with a base URL option.
+ */
+
+export const DEFAULT_BASE_URL = "https://training.gov.au";
+
+export function siteBaseUrl(): string {
+  return (process.env.TGA_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+}
+
+export function unitUrl(code: string, baseUrl = siteBaseUrl()): string {
+  return `${baseUrl.replace(/\/+$/, "")}/training/details/${code}/unitdetails`;
+}
+
+/**
+ * Absolute URL of a site link ("/training/details/BSBWOR203"), resolved
+ * against the page it was found on, or the base URL when the page address
+ * is not an http(s) URL (e.g. a saved file).
+ */
+export function resolveSiteUrl(href: string, pageUrl?: string): string {
+  const base = pageUrl && /^https?:\/\//i.test(pageUrl) ? pageUrl : siteBaseUrl();
+  return new URL(href, base).toString();
+}
@@ -0,0 +1,178 @@
+/**
+ * Stand-in training.gov.au
+ *
+ * A local HTTP server that serves saved unit pages the way the site does, so
+ * sync runs can be exercised end to end without the network. Units without a
+ * page get the site's 404 page, and individual units can be made slow or made
+ * to fail with HTTP 500 a set number of times before they are served.
+ *
+ * Point any command at it with --base-url or TGA_BASE_URL and --backend http.
+ */
+
+import http from "http";
+import { AddressInfo } from "net";
+import { promises as fs } from "fs";
+import * as path from "path";
+import * as cheerio from "cheerio";
+import { extractCodeAndTitle } from "./parsers/uocParser.js";
+
+export interface StandInOptions {
+  port?: number;                      // 0 (default) picks a free port
+  fixturesDir?: string;               // Saved unit pages (*.html), served under the code each page shows
+  pages?: Record<string, string>;     // More unit pages, by code
+  delays?: Record<string, number>;    // Code -> milliseconds to wait before answering
+  failures?: Record<string, number>;  // Code -> HTTP 500 responses to give before serving the page
+}
+
+export interface StandInServer {
+  baseUrl: string;
+  requests: string[];                 // Paths requested so far, in order
+  close(): Promise<void>;
+}
+
+// Same title and heading as the site's not-found page, so pageDetection treats it alike
+export const NOT_FOUND_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head><title>Page not found | training.gov.au</title></head>
+<body><main><h1>Page not found</h1><p>The page you are looking for does not exist.</p></main></body>
+</html>
+`;
+
+const SERVER_ERROR_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head><title>Service unavailable</title></head>
+<body><h1>Something went wrong</h1></body>
+</html>
+`;
+
+/**
+ * Unit pages in a folder, keyed by the unit code in their header. Pages
+ * without one are skipped; when two pages show the same unit (e.g. in
+ * another table layout), the first file by name is served.
+ */
+export async function loadUnitPages(dir: string): Promise<Record<string, string>> {
+  const pages: Record<string, string> = {};
+  for (const file of (await fs.readdir(dir)).filter(f => f.endsWith(".html")).sort()) {
+    const html = await fs.readFile(path.join(dir, file), "utf-8");
+    const { code } = extractCodeAndTitle(cheerio.load(html));
+    if (code !== "Unknown") pages[code] ??= html;
+  }
+  return pages;
+}
+
+export async function startStandInServer(options: StandInOptions = {}): Promise<StandInServer> {
+  const pages = {
+    ...(options.fixturesDir ? await loadUnitPages(options.fixturesDir) : {}),
+    ...options.pages
+  };
+  const failuresLeft = new Map(Object.entries(options.failures ?? {}));
+  const requests: string[] = [];
+
+  const server = http.createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    requests.push(pathname);
+
+    const send = (status: number, html: string) => {
+      res.writeHead(status, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(html);
+    };
+
+    const match = pathname.match(/^\/training\/details\/([^/]+)\/unitdetails\/?$/);
+    if (!match) return send(404, NOT_FOUND_HTML);
+    const code = decodeURIComponent(match[1]).toUpperCase();
+
+    const delay = options.delays?.[code];
+    if (delay) await new Promise(resolve => setTimeout(resolve, delay));
+
+    const failures = failuresLeft.get(code) ?? 0;
+    if (failures > 0) {
+      failuresLeft.set(code, failures - 1);
+      return send(500, SERVER_ERROR_HTML);
+    }
+
+    const page = pages[code];
+    return page ? send(200, page) : send(404, NOT_FOUND_HTML);
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  };
+}
+
+// "BSBTWK201:2" -> ["BSBTWK201", 2]
+function parseCodeValue(arg: string): [string, number] {
+  const [code, value] = arg.split(":");
+  if (!code || !value || isNaN(Number(value))) {
+    throw new Error(`Expected CODE:NUMBER, got "${arg}"`);
+  }
+  return [code.toUpperCase(), Number(value)];
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log(`
+Usage: npx tsx src/standInServer.ts [options]
+
+Serves saved unit pages as a local stand-in for training.gov.au.
+
+Options:
+  --port <n>            Port to listen on (default: 4010)
+  --fixtures <dir>      Folder of saved unit pages (default: tests/fixtures/units)
+  --fail <code:n>       Answer the unit's first n requests with HTTP 500 (repeatable)
+  --delay <code:ms>     Wait this long before answering for the unit (repeatable)
+  --help, -h            Show this help
+
+Examples:
+  npx tsx src/standInServer.ts --fail BSBTWK201:2 --delay MARH013:3000
+  npx tsx src/autoSync.ts --backend http --base-url http://127.0.0.1:4010
+`);
+    return;
+  }
+
+  const options: StandInOptions = { port: 4010, fixturesDir: "tests/fixtures/units", failures: {}, delays: {} };
+
+  const portIndex = args.indexOf("--port");
+  if (portIndex >= 0 && args[portIndex + 1]) {
+    options.port = Number(args[portIndex + 1]);
+  }
+
+  const fixturesIndex = args.indexOf("--fixtures");
+  if (fixturesIndex >= 0 && args[fixturesIndex + 1]) {
+    options.fixturesDir = args[fixturesIndex + 1];
+  }
+
+  try {
+    args.forEach((arg, i) => {
+      if (arg === "--fail" && args[i + 1]) {
+        const [code, count] = parseCodeValue(args[i + 1]);
+        options.failures![code] = count;
+      } else if (arg === "--delay" && args[i + 1]) {
+        const [code, ms] = parseCodeValue(args[i + 1]);
+        options.delays![code] = ms;
+      }
+    });
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+
+  const server = await startStandInServer(options);
+  const codes = Object.keys(await loadUnitPages(options.fixturesDir!));
+  console.log(`\n🧪 Stand-in training.gov.au listening on ${server.baseUrl}`);
+  console.log(`   Units: ${codes.join(", ") || "(none)"}`);
+  console.log(`   Try: npx tsx src/autoSync.ts --backend http --base-url ${server.baseUrl}\n`);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((e) => {
+    console.error("\n❌ Fatal error:", e.message);
+    process.exit(1);
+  });
+}
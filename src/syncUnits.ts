@@ -1,17 +1,26 @@
 import XLSX from 'xlsx';
 import { Crawler } from "./crawler.js";
-import { Fetcher } from "./fetcher.js";
+import { createPageSource, FetchBackend, isFetchBackend, PageSource } from "./pageSource.js";
 import { ExportService } from "./services/exportService.js";
 import { EnhancedExcelExportService } from "./services/enhancedExcelService.js";
 import { parseUocHtml } from "./parsers/uocParser.js";
+import { parseMaxAge, SnapshotCache } from "./services/snapshotCache.js";
+import { configureSharedRateLimiter, parseRequestsPerMinute, RateLimiterOptions } from "./utils/rateLimiter.js";
+import { hasUnitContent } from "./parsers/pageDetection.js";
+import { classifyError } from "./errors.js";
+import { isSkillSetCode } from "./parsers/componentUnits.js";
+import { SkillSetService } from "./services/skillSetService.js";
 import { promises as fs } from "fs";
 import * as path from "path";
 import { Uoc } from "./models/uoc.js";
+import { siteBaseUrl, unitUrl } from "./siteUrls.js";
 
-// Cached Fetcher wrapper to avoid re-downloading during validation
-class CachedFetcher extends Fetcher {
+// Cached page source wrapper to avoid re-downloading during validation
+class CachedFetcher implements PageSource {
   private cache = new Map<string, string>();
 
+  constructor(private source: PageSource) {}
+
   setCache(url: string, html: string): void {
     this.cache.set(url, html);
   }
@@ -21,7 +30,11 @@ class CachedFetcher extends Fetcher {
       console.log(`[CachedFetcher] Using cached HTML for: ${url}`);
       return this.cache.get(url)!;
     }
-    return super.get(url);
+    return this.source.get(url);
+  }
+
+  async close(): Promise<void> {
+    await this.source.close();
   }
 }
 
@@ -31,6 +44,13 @@ interface SyncConfig {
   outputExcel: string;     // Excel file to store scraped data
   dataDir: string;         // Directory for JSONL data
   forceRescrape?: boolean; // If true, rescrape even if unit exists
+  fetchBackend?: FetchBackend; // "browser" (Puppeteer, default) or "http" (static HTML)
+  useCache?: boolean;          // Reuse page snapshots from <dataDir>/cache (default: true)
+  cacheMaxAgeMs?: number;      // Snapshot TTL (default: 24 hours)
+  rateLimit?: RateLimiterOptions; // Shared limiter settings (default: 20/min, one at a time)
+  baseUrl?: string;            // Site to sync from (default: TGA_BASE_URL or https://training.gov.au)
+  failOnDrift?: boolean;       // Fail the run when field coverage drops sharply (default: warn)
+  allowDegraded?: boolean;     // Overwrite stored units with records that lost fields
 }
 
 /**
@@ -50,6 +70,7 @@ function isValidUnitCode(code: string): boolean {
   ];
   
   if (excludeList.includes(code.toUpperCase())) return false;
+  if (isSkillSetCode(code)) return false;
   return code.match(/^[A-Z]{2,4}[A-Z0-9]*\d+[A-Z]?$/i) !== null;
 }
 
@@ -73,7 +94,7 @@ async function readUnitCodesFromExcel(filepath: string, columnName: string): Pro
         const matches = cellValue.matchAll(unitCodePattern);
         for (const match of matches) {
           const code = match[1];
-          if (isValidUnitCode(code)) {
+          if (isValidUnitCode(code) || isSkillSetCode(code)) {
             unitCodes.push(code);
           }
         }
@@ -120,10 +141,42 @@ async function syncUnits(config: SyncConfig): Promise<void> {
   console.log(`💾 Data directory: ${config.dataDir}\n`);
 
   // Step 1: Read unit codes from input Excel
-  const requestedCodes = await readUnitCodesFromExcel(config.inputExcel, config.inputColumn);
+  const inputCodes = await readUnitCodesFromExcel(config.inputExcel, config.inputColumn);
+  const skillSetCodes = inputCodes.filter(isSkillSetCode);
+  const requestedCodes = inputCodes.filter(code => !isSkillSetCode(code));
   console.log(`✅ Found ${requestedCodes.length} unit codes in input Excel`);
   console.log(`   Units: ${requestedCodes.join(', ')}\n`);
 
+  const baseUrl = config.baseUrl ?? siteBaseUrl();
+
+  // Every fetch in this run (skill sets, validation and crawl) goes through one limiter
+  configureSharedRateLimiter({
+    requestsPerMinute: 20,
+    burst: 1,
+    maxConcurrency: 1,
+    ...config.rateLimit
+  });
+
+  // Use CachedFetcher to avoid re-downloading HTML
+  const fetcher = new CachedFetcher(createPageSource({
+    backend: config.fetchBackend,
+    // --no-cache still refreshes snapshots; it just never treats one as fresh
+    cache: new SnapshotCache(config.dataDir, {
+      maxAgeMs: config.useCache === false ? 0 : config.cacheMaxAgeMs
+    }),
+    headless: true,
+    timeout: 30000
+  }));
+
+  // Skill sets in the input expand to their member units
+  if (skillSetCodes.length > 0) {
+    console.log(`🧩 Found ${skillSetCodes.length} skill sets: ${skillSetCodes.join(', ')}`);
+    const resolution = await new SkillSetService(fetcher, config.dataDir, baseUrl).resolve(skillSetCodes);
+    const memberCodes = resolution.unitCodes.filter(code => !requestedCodes.includes(code));
+    requestedCodes.push(...memberCodes);
+    console.log(`✅ Added ${memberCodes.length} units from ${resolution.skillSets.length} skill set(s)\n`);
+  }
+
   // Step 2: Check which units already exist in output Excel
   const outputExcelPath = path.join(config.dataDir, config.outputExcel);
   const existingUnits = await getExistingUnits(outputExcelPath);
@@ -148,6 +201,7 @@ async function syncUnits(config: SyncConfig): Promise<void> {
 
   if (unitsToScrape.length === 0) {
     console.log('\n✅ All units are up to date. Nothing to scrape!\n');
+    await fetcher.close();
     return;
   }
 
@@ -158,49 +212,47 @@ async function syncUnits(config: SyncConfig): Promise<void> {
   const invalidUnits: { code: string; reason: string }[] = [];
   const errorUnits: { code: string; error: string }[] = [];
 
-  // Use CachedFetcher to avoid re-downloading HTML
-  const fetcher = new CachedFetcher({
-    minDelayMs: 3000,
-    headless: true,
-    timeout: 30000
-  });
-
-  const exporter = new ExportService(config.dataDir);
+  const exporter = new ExportService(config.dataDir, { allowDegraded: config.allowDegraded });
   
-  // Helper to categorize errors
+  // Helper to categorize errors by the typed error the fetcher threw
   const categorizeError = (code: string, error: any): void => {
     const errorMsg = error.message || String(error);
-    if (errorMsg.includes('404') || errorMsg.includes('not found')) {
-      invalidUnits.push({ code, reason: '404 - Unit not found' });
-      console.log(`   ❌ Invalid unit (404)`);
-    } else if (errorMsg.includes('timeout') || errorMsg.includes('ETIMEDOUT')) {
-      errorUnits.push({ code, error: 'Network timeout' });
-      console.log(`   ⚠️  Network timeout`);
-    } else if (errorMsg.includes('Connection closed') || errorMsg.includes('Protocol error')) {
-      errorUnits.push({ code, error: 'Browser connection closed' });
-      console.log(`   ⚠️  Connection error`);
-    } else {
-      errorUnits.push({ code, error: errorMsg });
-      console.log(`   ⚠️  Error: ${errorMsg.substring(0, 50)}...`);
+    switch (classifyError(error)) {
+      case 'not-found':
+        invalidUnits.push({ code, reason: 'Unit does not exist on training.gov.au (404)' });
+        console.log(`   ❌ Invalid unit (404)`);
+        break;
+      case 'timeout':
+        errorUnits.push({ code, error: 'Network timeout' });
+        console.log(`   ⚠️  Network timeout`);
+        break;
+      case 'rate-limited':
+        errorUnits.push({ code, error: 'Rate limited by training.gov.au' });
+        console.log(`   ⚠️  Rate limited`);
+        break;
+      case 'render':
+        errorUnits.push({ code, error: 'Page did not render' });
+        console.log(`   ⚠️  Render error`);
+        break;
+      default:
+        errorUnits.push({ code, error: errorMsg });
+        console.log(`   ⚠️  Error: ${errorMsg.substring(0, 50)}...`);
     }
   };
   
   // Validate each unit and cache HTML for later use
   for (const code of unitsToScrape) {
-    const url = `https://training.gov.au/training/details/${code}/unitdetails`;
+    const url = unitUrl(code, baseUrl);
     
     try {
       console.log(`🔍 Checking: ${code}...`);
       const html = await fetcher.get(url);
       
-      // Check if it's a valid unit page (not 404 or error page)
-      if (html.includes('Unit of competency') || html.includes('Performance Criteria') || html.includes('Performance evidence')) {
+      // Not-found pages are thrown as NotFoundError; here we only check the page rendered a unit
+      if (hasUnitContent(html)) {
         validUnits.push(code);
         fetcher.setCache(url, html); // Cache for later use
         console.log(`   ✅ Valid unit found`);
-      } else if (html.includes('404') || html.includes('not found') || html.includes('does not exist')) {
-        invalidUnits.push({ code, reason: 'Unit does not exist on training.gov.au (404)' });
-        console.log(`   ❌ Invalid unit (404)`);
       } else {
         invalidUnits.push({ code, reason: 'Page found but no unit content detected' });
         console.log(`   ❌ Invalid unit (no data)`);
@@ -208,9 +260,6 @@ async function syncUnits(config: SyncConfig): Promise<void> {
     } catch (error: any) {
       categorizeError(code, error);
     }
-    
-    // Small delay between checks
-    await new Promise(resolve => setTimeout(resolve, 1000));
   }
 
   console.log(`\n📊 Validation Summary:`);
@@ -260,18 +309,18 @@ async function syncUnits(config: SyncConfig): Promise<void> {
   console.log(`\n🌐 Scraping ${validUnits.length} valid units...\n`);
 
   // Step 5: Scrape only the valid units using same fetcher instance
-  const urls = validUnits.map(code => 
-    `https://training.gov.au/training/details/${code}/unitdetails`
-  );
+  const urls = validUnits.map(code => unitUrl(code, baseUrl));
 
   const crawler = new Crawler(fetcher, exporter, {
     concurrency: 1,
+    drift: { failOnDrift: config.failOnDrift },
     onItem: (item) => {
       console.log(`\n✅ Scraped: ${item.code} - ${item.title}`);
       console.log(`   Release: ${item.release || 'N/A'}`);
       console.log(`   Elements: ${item.elements?.length || 0}`);
       console.log(`   Performance Evidence: ${item.performanceEvidence ? '✓' : '✗'}`);
       console.log(`   Knowledge Evidence: ${item.knowledgeEvidence ? '✓' : '✗'}`);
+      item.parseWarnings?.forEach(warning => console.log(`   ⚠️  ${warning}`));
     }
   });
 
@@ -344,6 +393,48 @@ async function main() {
     config.inputColumn = args[columnIndex + 1];
   }
 
+  const backendIndex = args.indexOf('--backend');
+  if (backendIndex >= 0 && args[backendIndex + 1]) {
+    const backend = args[backendIndex + 1];
+    if (!isFetchBackend(backend)) {
+      console.error(`❌ Unknown backend "${backend}" (expected "browser" or "http")`);
+      process.exit(1);
+    }
+    config.fetchBackend = backend;
+  }
+
+  const rpmIndex = args.indexOf('--rpm');
+  if (rpmIndex >= 0 && args[rpmIndex + 1]) {
+    try {
+      config.rateLimit = { ...config.rateLimit, requestsPerMinute: parseRequestsPerMinute(args[rpmIndex + 1]) };
+    } catch (error: any) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  if (args.includes('--no-cache')) {
+    config.useCache = false;
+  }
+
+  const maxAgeIndex = args.indexOf('--max-age');
+  if (maxAgeIndex >= 0 && args[maxAgeIndex + 1]) {
+    try {
+      config.cacheMaxAgeMs = parseMaxAge(args[maxAgeIndex + 1]);
+    } catch (error: any) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  const baseUrlIndex = args.indexOf('--base-url');
+  if (baseUrlIndex >= 0 && args[baseUrlIndex + 1]) {
+    config.baseUrl = args[baseUrlIndex + 1];
+  }
+
+  config.failOnDrift = args.includes('--fail-on-drift');
+  config.allowDegraded = args.includes('--allow-degraded');
+
   // Show help if requested
   if (args.includes('--help') || args.includes('-h')) {
     console.log(`
@@ -358,6 +449,14 @@ Options:
   --column <name>   Column name containing unit codes (default: scan all columns)
   --output <file>   Output Excel file for scraped data (default: UnitsData.xlsx)
   --force           Re-scrape all units even if they exist
+  --backend <name>  Fetch backend: "browser" (Chromium, default) or "http" (no browser)
+  --rpm <n>         Maximum requests per minute to training.gov.au (default: 20)
+  --no-cache        Ignore cached pages in <data>/cache and download again
+  --max-age <age>   Reuse cached pages younger than this (hours, or 30m/12h/7d; default: 24h)
+  --base-url <url>  Site to sync from, e.g. a local stand-in server
+                    (default: TGA_BASE_URL or https://training.gov.au)
+  --fail-on-drift   Fail when field coverage drops sharply against the last good run
+  --allow-degraded  Overwrite stored units even when the new record lost fields
   --help, -h        Show this help message
 
 Example:
@@ -0,0 +1,126 @@
+/**
+ * Unit History
+ *
+ * Lists the stored versions of a unit (every scrape whose content changed)
+ * and prints a unit as it was on a given date or at a given version, e.g. to
+ * show what a unit said when an assessment was built against it.
+ */
+
+import { promises as fs } from "fs";
+import { UnitRepository, UnitVersion } from "./services/unitRepository.js";
+import { Uoc } from "./models/uoc.js";
+
+export interface HistoryQuery {
+  code: string;
+  dataDir: string;
+  asOf?: string;        // Date or timestamp, e.g. "2025-03-01"
+  version?: string;     // Content hash or a unique prefix of it
+}
+
+export type HistoryResult =
+  | { kind: "history"; versions: UnitVersion[] }
+  | { kind: "unit"; unit: Uoc | undefined };
+
+export function queryUnitHistory(query: HistoryQuery): HistoryResult {
+  const repository = UnitRepository.open(query.dataDir);
+  try {
+    if (query.version) return { kind: "unit", unit: repository.version(query.code, query.version) };
+    if (query.asOf) return { kind: "unit", unit: repository.asOf(query.code, query.asOf) };
+    return { kind: "history", versions: repository.history(query.code) };
+  } finally {
+    repository.close();
+  }
+}
+
+function printHistory(code: string, versions: UnitVersion[]) {
+  if (versions.length === 0) {
+    console.log(`No stored versions of ${code}`);
+    return;
+  }
+
+  console.log(`\n📜 ${code}: ${versions.length} version(s), newest first\n`);
+  for (const version of versions) {
+    const kind = version.current ? "" : "  (older release, scraped on its own)";
+    console.log(`   ${version.fetchedAt}  ${version.release || "(no release)"}  ${version.contentHash.slice(0, 12)}${kind}`);
+  }
+  console.log(`\n   Show one: npx tsx src/unitHistory.ts ${code} --version <hash>`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log(`
+Usage: npx tsx src/unitHistory.ts <code> [options]
+
+Lists the stored versions of a unit, or prints the unit as it was on a date
+or at a version as JSON.
+
+Options:
+  --as-of <date>    Print the unit as stored on this date (YYYY-MM-DD covers the whole day)
+  --version <hash>  Print the version with this content hash (a unique prefix is enough)
+  --out <file>      Write the printed unit to a file instead of the console
+  --data <dir>      Data directory holding units.db (default: data)
+  --help, -h        Show this help
+
+Examples:
+  npx tsx src/unitHistory.ts BSBTWK201
+  npx tsx src/unitHistory.ts BSBTWK201 --as-of 2025-03-01 --out BSBTWK201-2025-03-01.json
+`);
+    return;
+  }
+
+  const valueFlags = ["--as-of", "--version", "--out", "--data"];
+  const code = args.find((arg, i) => !arg.startsWith("--") && !valueFlags.includes(args[i - 1]));
+  if (!code) {
+    console.error("❌ No unit code given (see --help)");
+    process.exit(1);
+  }
+
+  const query: HistoryQuery = { code: code.toUpperCase(), dataDir: "data" };
+
+  const dataIndex = args.indexOf("--data");
+  if (dataIndex >= 0 && args[dataIndex + 1]) {
+    query.dataDir = args[dataIndex + 1];
+  }
+
+  const asOfIndex = args.indexOf("--as-of");
+  if (asOfIndex >= 0 && args[asOfIndex + 1]) {
+    query.asOf = args[asOfIndex + 1];
+  }
+
+  const versionIndex = args.indexOf("--version");
+  if (versionIndex >= 0 && args[versionIndex + 1]) {
+    query.version = args[versionIndex + 1];
+  }
+
+  const outIndex = args.indexOf("--out");
+  const outFile = outIndex >= 0 ? args[outIndex + 1] : undefined;
+
+  const result = queryUnitHistory(query);
+  if (result.kind === "history") {
+    printHistory(query.code, result.versions);
+    return;
+  }
+
+  if (!result.unit) {
+    const when = query.version ? `version ${query.version}` : `on ${query.asOf}`;
+    console.error(`❌ No stored version of ${query.code} ${when}`);
+    process.exit(1);
+  }
+
+  const json = JSON.stringify(result.unit, null, 2);
+  if (outFile) {
+    await fs.writeFile(outFile, json + "\n", "utf-8");
+    console.log(`✅ ${query.code} ${result.unit.release ?? ""} (fetched ${result.unit.lastFetchedAt}) written to ${outFile}`);
+  } else {
+    console.log(json);
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((e) => {
+    console.error("\n❌ Fatal error:", e.message);
+    process.exit(1);
+  });
+}
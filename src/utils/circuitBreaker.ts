@@ -0,0 +1,138 @@
+import { isRetryableError } from "../errors.js";
+import { sleep } from "./requestUtils.js";
+
+export type CircuitBreakerOptions = {
+  failureThreshold?: number;  // Consecutive failures that open the circuit (default: 5)
+  cooldownMs?: number;        // Pause before probing the site again (default: 60000)
+  maxCooldownMs?: number;     // Cap for the cooldown, which doubles after a failed probe (default: 600000)
+  isFailure?: (err: any) => boolean;  // Which errors count as an outage (default: isRetryableError)
+};
+
+type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Per-run circuit breaker. After `failureThreshold` consecutive failures the
+ * site is assumed to be down: every request waits out a cooldown instead of
+ * failing, then a single request goes through as a probe. A successful probe
+ * closes the circuit and releases the waiting requests; a failed one re-opens
+ * it with a longer cooldown.
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private baseCooldownMs: number;
+  private maxCooldownMs: number;
+  private isFailure: (err: any) => boolean;
+
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private cooldownMs: number;
+  private openUntil = 0;
+  private probeDone: Promise<void> = Promise.resolve();
+  private trips = 0;
+  private outages: { from: number; to?: number }[] = [];  // From opening until a probe succeeds
+
+  constructor(opts?: CircuitBreakerOptions) {
+    this.failureThreshold = Math.max(1, opts?.failureThreshold ?? 5);
+    this.baseCooldownMs = opts?.cooldownMs ?? 60000;
+    this.maxCooldownMs = opts?.maxCooldownMs ?? 600000;
+    this.isFailure = opts?.isFailure ?? isRetryableError;
+    this.cooldownMs = this.baseCooldownMs;
+  }
+
+  /**
+   * Number of times the circuit opened during this run.
+   */
+  get tripCount(): number {
+    return this.trips;
+  }
+
+  /**
+   * True when `time` (ms since epoch) fell while the circuit was open,
+   * cooling down or probing the site.
+   */
+  wasOpenAt(time: number): boolean {
+    return this.outages.some(outage => time >= outage.from && (outage.to === undefined || time <= outage.to));
+  }
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    while (true) {
+      if (this.state === "open") {
+        const wait = this.openUntil - Date.now();
+        if (wait > 0) {
+          await sleep(wait);
+          continue;
+        }
+        this.state = "half-open";
+        console.log("[CircuitBreaker] Cooldown over, probing the site...");
+        return this.runProbe(fn);
+      }
+
+      if (this.state === "half-open") {
+        await this.probeDone;
+        continue;
+      }
+
+      return this.runClosed(fn);
+    }
+  }
+
+  private async runClosed<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      const result = await fn();
+      this.consecutiveFailures = 0;
+      return result;
+    } catch (err) {
+      if (!this.isFailure(err)) {
+        this.consecutiveFailures = 0;
+      } else if (++this.consecutiveFailures >= this.failureThreshold && this.state === "closed") {
+        this.open();
+      }
+      throw err;
+    }
+  }
+
+  private async runProbe<T>(fn: () => Promise<T>): Promise<T> {
+    let finish = () => {};
+    this.probeDone = new Promise<void>(resolve => (finish = resolve));
+
+    try {
+      const result = await fn();
+      this.close();
+      return result;
+    } catch (err) {
+      if (this.isFailure(err)) {
+        this.cooldownMs = Math.min(this.maxCooldownMs, this.cooldownMs * 2);
+        this.open();
+      } else {
+        // The site answered (e.g. a 404), so it is up again
+        this.close();
+      }
+      throw err;
+    } finally {
+      finish();
+    }
+  }
+
+  private open() {
+    if (this.state === "closed") {
+      this.outages.push({ from: Date.now() });
+    }
+    this.state = "open";
+    this.trips++;
+    this.openUntil = Date.now() + this.cooldownMs;
+    console.log(
+      `[CircuitBreaker] ${this.consecutiveFailures} consecutive failures, site looks down. ` +
+      `Pausing all requests for ${Math.round(this.cooldownMs / 1000)}s`
+    );
+  }
+
+  private close() {
+    if (this.state !== "closed") {
+      console.log("[CircuitBreaker] Probe succeeded, resuming");
+      this.outages[this.outages.length - 1].to = Date.now();
+    }
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.cooldownMs = this.baseCooldownMs;
+  }
+}
@@ -0,0 +1,224 @@
+import { FetchError, RateLimitedError } from "../errors.js";
+import { sleep } from "./requestUtils.js";
+
+export type RateLimiterOptions = {
+  requestsPerMinute?: number;  // Sustained request rate (default: 30)
+  burst?: number;              // Requests allowed back-to-back before throttling (default: 3)
+  maxConcurrency?: number;     // Requests in flight at once (default: 3)
+  backoffMs?: number;          // Pause after a 429/503 without Retry-After (default: 15000)
+  logIntervalMs?: number;      // How often the effective rate is logged (default: 60000)
+};
+
+// After this many successes in a row the reduced rate is stepped back up
+const RECOVERY_STREAK = 10;
+
+// A zero or NaN rate never refills a token, so requests would wait forever
+function checkRequestsPerMinute(rpm: number): number {
+  if (!Number.isFinite(rpm) || rpm <= 0) {
+    throw new Error(`Invalid requests per minute ${rpm} (expected a positive number)`);
+  }
+  return rpm;
+}
+
+/**
+ * Parse a --rpm value: a positive number of requests per minute, e.g. 30 or 0.5.
+ */
+export function parseRequestsPerMinute(value: string): number {
+  const rpm = Number(value);
+  if (!value.trim() || !Number.isFinite(rpm) || rpm <= 0) {
+    throw new Error(`Invalid requests per minute "${value}" (expected a positive number, e.g. 30)`);
+  }
+  return rpm;
+}
+
+/**
+ * Token-bucket rate limiter shared by every fetch in the process.
+ * Tokens refill at requestsPerMinute, up to `burst`; at most `maxConcurrency`
+ * requests run at once. A 429/503 halves the rate and pauses all requests,
+ * and the rate recovers gradually once responses succeed again.
+ */
+export class RateLimiter {
+  private targetRpm: number;
+  private currentRpm: number;
+  private burst: number;
+  private maxConcurrency: number;
+  private backoffMs: number;
+  private logIntervalMs: number;
+
+  private tokens: number;
+  private lastRefillAt = Date.now();
+  private pausedUntil = 0;
+  private inFlight = 0;
+  private successStreak = 0;
+  private queue: Promise<void> = Promise.resolve();
+  private slotWaiters: (() => void)[] = [];
+  private grantedAt: number[] = [];
+  private lastLogAt = Date.now();
+
+  constructor(opts?: RateLimiterOptions) {
+    this.targetRpm = checkRequestsPerMinute(opts?.requestsPerMinute ?? 30);
+    this.currentRpm = this.targetRpm;
+    this.burst = Math.max(1, opts?.burst ?? 3);
+    this.maxConcurrency = Math.max(1, opts?.maxConcurrency ?? 3);
+    this.backoffMs = opts?.backoffMs ?? 15000;
+    this.logIntervalMs = opts?.logIntervalMs ?? 60000;
+    this.tokens = this.burst;
+  }
+
+  configure(opts: RateLimiterOptions) {
+    if (opts.requestsPerMinute !== undefined) {
+      this.targetRpm = checkRequestsPerMinute(opts.requestsPerMinute);
+      this.currentRpm = this.targetRpm;
+    }
+    if (opts.burst !== undefined) {
+      this.burst = Math.max(1, opts.burst);
+      this.tokens = Math.min(this.tokens, this.burst);
+    }
+    if (opts.maxConcurrency !== undefined) this.maxConcurrency = Math.max(1, opts.maxConcurrency);
+    if (opts.backoffMs !== undefined) this.backoffMs = opts.backoffMs;
+    if (opts.logIntervalMs !== undefined) this.logIntervalMs = opts.logIntervalMs;
+  }
+
+  private refill() {
+    const now = Date.now();
+    const perMs = this.currentRpm / 60000;
+    this.tokens = Math.min(this.burst, this.tokens + (now - this.lastRefillAt) * perMs);
+    this.lastRefillAt = now;
+  }
+
+  private async waitForTurn() {
+    while (true) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      if (this.inFlight >= this.maxConcurrency) {
+        await new Promise<void>(resolve => this.slotWaiters.push(resolve));
+        continue;
+      }
+
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        this.inFlight++;
+        this.grantedAt.push(now);
+        return;
+      }
+
+      await sleep(Math.ceil((1 - this.tokens) / (this.currentRpm / 60000)));
+    }
+  }
+
+  /**
+   * Wait for a token and a concurrency slot. Callers are served in FIFO order.
+   * Returns a function that releases the slot.
+   */
+  async acquire(): Promise<() => void> {
+    const turn = this.queue.then(() => this.waitForTurn());
+    this.queue = turn.catch(() => {});
+    await turn;
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.inFlight--;
+      this.slotWaiters.shift()?.();
+      this.logRate();
+    };
+  }
+
+  /**
+   * Run a request under the limiter, adapting the rate to its outcome.
+   */
+  async schedule<T>(fn: () => Promise<T>): Promise<T> {
+    const release = await this.acquire();
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (error instanceof RateLimitedError) {
+        this.recordThrottle(error.status, error.retryAfterMs);
+      } else if (error instanceof FetchError && error.status === 503) {
+        this.recordThrottle(503);
+      }
+      throw error;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * The server pushed back: halve the rate and pause every request.
+   */
+  recordThrottle(status?: number, retryAfterMs?: number) {
+    const minRpm = Math.max(1, this.targetRpm / 16);
+    this.currentRpm = Math.max(minRpm, this.currentRpm / 2);
+    this.successStreak = 0;
+    this.tokens = 0;
+
+    const pauseMs = retryAfterMs ?? this.backoffMs;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + pauseMs);
+
+    console.log(
+      `[RateLimiter] ${status ?? "Throttled"} received: pausing ${Math.round(pauseMs / 1000)}s, ` +
+      `rate reduced to ${this.currentRpm.toFixed(1)}/min`
+    );
+  }
+
+  recordSuccess() {
+    if (this.currentRpm >= this.targetRpm) return;
+
+    this.successStreak++;
+    if (this.successStreak >= RECOVERY_STREAK) {
+      this.successStreak = 0;
+      this.currentRpm = Math.min(this.targetRpm, this.currentRpm * 1.5);
+      console.log(`[RateLimiter] Recovering: rate raised to ${this.currentRpm.toFixed(1)}/min`);
+    }
+  }
+
+  /**
+   * Requests granted in the last minute, the current limit and requests in flight.
+   */
+  stats() {
+    const cutoff = Date.now() - 60000;
+    this.grantedAt = this.grantedAt.filter(t => t >= cutoff);
+    return {
+      lastMinute: this.grantedAt.length,
+      limitPerMinute: this.currentRpm,
+      targetPerMinute: this.targetRpm,
+      inFlight: this.inFlight
+    };
+  }
+
+  private logRate() {
+    const now = Date.now();
+    if (now - this.lastLogAt < this.logIntervalMs) return;
+    this.lastLogAt = now;
+
+    const { lastMinute, limitPerMinute, inFlight } = this.stats();
+    console.log(
+      `[RateLimiter] ${lastMinute} requests in the last minute ` +
+      `(limit ${limitPerMinute.toFixed(1)}/min, burst ${this.burst}, ${inFlight} in flight)`
+    );
+  }
+}
+
+let shared: RateLimiter | null = null;
+
+/**
+ * The process-wide limiter used by every page source unless one is passed explicitly.
+ */
+export function getSharedRateLimiter(): RateLimiter {
+  if (!shared) shared = new RateLimiter();
+  return shared;
+}
+
+export function configureSharedRateLimiter(opts: RateLimiterOptions): RateLimiter {
+  const limiter = getSharedRateLimiter();
+  limiter.configure(opts);
+  return limiter;
+}
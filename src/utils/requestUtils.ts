@@ -1,3 +1,5 @@
+import { isRetryableError } from "../errors.js";
+
 export const handleResponse = async (response: Response) => {
     if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
@@ -16,13 +18,25 @@ export const fetchWithTimeout = async (url: string, options: RequestInit = {}, t
 
 export const sleep = (ms: number) => new Promise(res => setTimeout(res, ms));
 
+export type RetryOptions = {
+  retries?: number;
+  baseDelayMs?: number;
+  factor?: number;
+  maxDelayMs?: number;
+  shouldRetry?: (err: any) => boolean;  // Defaults to isRetryableError
+  label?: string;                       // Prefix for log lines (e.g. the URL)
+};
+
 export async function withRetries<T>(
   fn: () => Promise<T>,
-  opts?: { retries?: number; baseDelayMs?: number; factor?: number }
+  opts?: RetryOptions
 ): Promise<T> {
   const retries = opts?.retries ?? 3;
   const base = opts?.baseDelayMs ?? 600;
   const factor = opts?.factor ?? 2;
+  const maxDelay = opts?.maxDelayMs ?? 60000;
+  const shouldRetry = opts?.shouldRetry ?? isRetryableError;
+  const prefix = opts?.label ? `${opts.label} ` : '';
 
   let attempt = 0;
   let lastErr: any;
@@ -32,21 +46,22 @@ export async function withRetries<T>(
       return await fn();
     } catch (err: any) {
       lastErr = err;
-      const status = err?.response?.status;
+      const status = err?.status ?? err?.response?.status;
       const code = err?.code;
 
-      console.error(`[Retry ${attempt}/${retries}] Error: ${err?.message || err}`);
+      console.error(`${prefix}[Retry ${attempt}/${retries}] Error: ${err?.message || err}`);
       if (code) console.error(`  Code: ${code}`);
       if (status) console.error(`  HTTP Status: ${status}`);
 
-      // Do not retry 4xx except 429
-      if (status && status !== 429 && status >= 400 && status < 500) {
-        console.error(`  Non-retryable status ${status}, giving up`);
+      if (!shouldRetry(err)) {
+        console.error(`  Non-retryable error${status ? ` (status ${status})` : ''}, giving up`);
         break;
       }
 
       if (attempt < retries) {
-        const delay = base * Math.pow(factor, attempt) + Math.round(Math.random() * 250);
+        // Equal jitter: half the exponential delay is fixed, half is random
+        const exp = Math.min(maxDelay, base * Math.pow(factor, attempt));
+        const delay = Math.round(exp / 2 + Math.random() * (exp / 2));
         console.error(`  Waiting ${delay}ms before retry...`);
         await sleep(delay);
       }
@@ -56,4 +71,4 @@ export async function withRetries<T>(
   }
 
   throw lastErr;
-}
\ No newline at end of file
+}
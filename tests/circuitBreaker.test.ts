@@ -0,0 +1,29 @@
+/// <reference types="vitest" />
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker } from '../src/utils/circuitBreaker.js';
+import { TimeoutError } from '../src/errors.js';
+
+describe('CircuitBreaker', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should report only the time from opening until a probe succeeds as an outage', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 20 });
+        const beforeOutage = Date.now() - 1;
+
+        await expect(breaker.execute(async () => {
+            throw new TimeoutError('Navigation timed out', 'https://training.gov.au/');
+        })).rejects.toBeInstanceOf(TimeoutError);
+        const duringOutage = Date.now();
+
+        await expect(breaker.execute(async () => 'ok')).resolves.toBe('ok');
+        const afterOutage = Date.now() + 1;
+
+        expect(breaker.tripCount).toBe(1);
+        expect(breaker.wasOpenAt(beforeOutage)).toBe(false);
+        expect(breaker.wasOpenAt(duringOutage)).toBe(true);
+        expect(breaker.wasOpenAt(afterOutage)).toBe(false);
+    });
+});
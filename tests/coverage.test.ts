@@ -0,0 +1,46 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { computeCoverage, lostFields } from '../src/models/coverage.js';
+import { compareCoverage } from '../src/services/driftDetector.js';
+import { Uoc } from '../src/models/uoc.js';
+
+const unit = (code: string, extra: Partial<Uoc> = {}): Uoc => ({
+    url: `https://training.gov.au/training/details/${code}/unitdetails`,
+    code,
+    title: 'Work effectively with others',
+    release: 'Release 1',
+    elements: [{ number: '1', element: 'Participate in work teams', performanceCriteria: [] }],
+    performanceEvidence: 'Evidence of the ability to work with others',
+    knowledgeEvidence: 'Knowledge of team roles',
+    supersededBy: null,
+    supersedes: null,
+    lastFetchedAt: '2025-01-01T00:00:00.000Z',
+    ...extra
+} as Uoc);
+
+describe('parser drift', () => {
+    it('should flag fields whose coverage fell against the baseline', () => {
+        const codes = ['BSBTWK201', 'BSBTWK301', 'BSBTWK401', 'BSBTWK501', 'BSBTWK502'];
+        const baseline = computeCoverage(codes.map(code => unit(code)));
+        const current = computeCoverage([
+            unit('BSBTWK201', { elements: [] }),
+            unit('BSBTWK301', { elements: [] }),
+            unit('BSBTWK401', { elements: [], knowledgeEvidence: undefined }),
+            unit('BSBTWK501'),
+            unit('Unknown', { title: 'Unknown' })
+        ]);
+
+        expect(current.fields).toMatchObject({ code: 0.8, elements: 0.4, knowledgeEvidence: 0.8 });
+        expect(compareCoverage(baseline, current)).toEqual([
+            { field: 'elements', baseline: 1, current: 0.4 }
+        ]);
+    });
+
+    it('should list the protected fields a new record lost', () => {
+        const stored = unit('BSBTWK201');
+        const reparsed = unit('BSBTWK201', { elements: undefined, performanceEvidence: ' ', release: 'Release 2' });
+
+        expect(lostFields(stored, reparsed)).toEqual(['elements', 'performanceEvidence']);
+        expect(lostFields(reparsed, stored)).toEqual([]);
+    });
+});
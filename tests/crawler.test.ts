@@ -0,0 +1,84 @@
+/// <reference types="vitest" />
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { Crawler } from '../src/crawler.js';
+import { PageSource } from '../src/pageSource.js';
+import { ExportService } from '../src/services/exportService.js';
+import { UnitRepository } from '../src/services/unitRepository.js';
+import { DriftError } from '../src/services/driftDetector.js';
+
+const UNIT_URL = 'https://training.gov.au/training/details/BSBTWK201/unitdetails';
+
+// The unit's header with none of its content, as when the site's markup changes
+const headerOnly = `
+    <html>
+        <body>
+            <div class="heroSubheading"><div class="title"><strong>BSBTWK201</strong> Work effectively with others</div></div>
+        </body>
+    </html>
+`;
+
+const pageSource = (html: string): PageSource => ({
+    get: async () => html,
+    close: async () => {}
+});
+
+const baseline = (elements: number) => JSON.stringify({
+    units: 10,
+    fields: { code: 1, title: 1, elements },
+    updatedAt: '2025-01-01T00:00:00.000Z'
+});
+
+let dataDir: string;
+
+describe('Crawler', () => {
+    beforeEach(() => {
+        dataDir = mkdtempSync(path.join(tmpdir(), 'tga-crawl-'));
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should store nothing when the run fails on parser drift', async () => {
+        writeFileSync(path.join(dataDir, 'coverage-baseline.json'), baseline(1));
+        const crawler = new Crawler(pageSource(headerOnly), new ExportService(dataDir), {
+            drift: { minUnits: 1, failOnDrift: true }
+        });
+
+        await expect(crawler.crawlUocUrls([UNIT_URL])).rejects.toBeInstanceOf(DriftError);
+
+        const repository = UnitRepository.open(dataDir);
+        expect(repository.count()).toBe(0);
+        repository.close();
+        expect(existsSync(path.join(dataDir, 'uoc.jsonl'))).toBe(false);
+    });
+
+    it('should store the units of a run without drift', async () => {
+        writeFileSync(path.join(dataDir, 'coverage-baseline.json'), baseline(0));
+        const crawler = new Crawler(pageSource(headerOnly), new ExportService(dataDir), {
+            drift: { minUnits: 1, failOnDrift: true }
+        });
+
+        const result = await crawler.crawlUocUrls([UNIT_URL]);
+
+        expect(result.success).toEqual(['BSBTWK201']);
+        expect(readFileSync(path.join(dataDir, 'uoc.jsonl'), 'utf-8')).toContain('"BSBTWK201"');
+    });
+
+    it('should file a unit that lost fields as degraded, not as a parse failure', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const fullPage = readFileSync('tests/fixtures/units/bsb-two-column.html', 'utf-8');
+        await new Crawler(pageSource(fullPage), new ExportService(dataDir), { drift: false }).crawlUocUrls([UNIT_URL]);
+
+        const result = await new Crawler(pageSource(headerOnly), new ExportService(dataDir), { drift: false }).crawlUocUrls([UNIT_URL]);
+
+        expect(result.degraded).toEqual(['BSBTWK201']);
+        expect(result.parsingErrors).toEqual([]);
+        expect(result.errors.map(e => e.kind)).toEqual(['degraded']);
+    });
+});
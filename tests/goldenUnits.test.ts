@@ -0,0 +1,88 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import { parseUocHtml } from '../src/parsers/uocParser.js';
+
+/**
+ * Golden-file tests: every tests/fixtures/units/<name>.html is parsed and
+ * compared field by field with <name>.json. After an intended parser change,
+ * refresh the expected files with `npm run test:update-golden` and review the
+ * JSON diff before committing.
+ */
+
+const FIXTURE_DIR = 'tests/fixtures/units';
+const UPDATE = !!process.env.UPDATE_GOLDEN;
+
+// Fields that change on every run rather than with the parser's output
+const VOLATILE_FIELDS = ['lastFetchedAt', 'parserProfile'];
+
+const fixtures = readdirSync(FIXTURE_DIR)
+    .filter(file => file.endsWith('.html'))
+    .map(file => path.basename(file, '.html'))
+    .sort();
+
+function parseFixture(name: string): any {
+    const file = path.join(FIXTURE_DIR, `${name}.html`);
+    const unit: any = JSON.parse(JSON.stringify(parseUocHtml(readFileSync(file, 'utf-8'), file)));
+    VOLATILE_FIELDS.forEach(field => delete unit[field]);
+    return unit;
+}
+
+const show = (value: unknown) => {
+    const text = JSON.stringify(value);
+    return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+// One line per differing field, e.g. 'elements[0].criteria[1].text: expected "..." but got "..."'
+function diffFields(expected: any, actual: any, at = ''): string[] {
+    if (Array.isArray(expected) && Array.isArray(actual)) {
+        const diffs: string[] = [];
+        for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+            const item = `${at}[${i}]`;
+            if (i >= actual.length) diffs.push(`${item}: missing, expected ${show(expected[i])}`);
+            else if (i >= expected.length) diffs.push(`${item}: unexpected ${show(actual[i])}`);
+            else diffs.push(...diffFields(expected[i], actual[i], item));
+        }
+        return diffs;
+    }
+
+    const isObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+    if (isObject(expected) && isObject(actual)) {
+        const keys = [...new Set([...Object.keys(expected), ...Object.keys(actual)])];
+        return keys.flatMap(key => {
+            const field = at ? `${at}.${key}` : key;
+            if (!(key in actual)) return [`${field}: missing, expected ${show(expected[key])}`];
+            if (!(key in expected)) return [`${field}: unexpected ${show(actual[key])}`];
+            return diffFields(expected[key], actual[key], field);
+        });
+    }
+
+    return JSON.stringify(expected) === JSON.stringify(actual)
+        ? []
+        : [`${at || '(unit)'}: expected ${show(expected)} but got ${show(actual)}`];
+}
+
+describe('golden unit pages', () => {
+    it('should have fixtures to check', () => {
+        expect(fixtures.length).toBeGreaterThan(0);
+    });
+
+    it.each(fixtures)('%s should parse to its expected unit', (name) => {
+        const actual = parseFixture(name);
+        const expectedFile = path.join(FIXTURE_DIR, `${name}.json`);
+
+        if (UPDATE) {
+            writeFileSync(expectedFile, JSON.stringify(actual, null, 2) + '\n', 'utf-8');
+            return;
+        }
+
+        expect(existsSync(expectedFile), `${expectedFile} is missing; run npm run test:update-golden`).toBe(true);
+        const expected = JSON.parse(readFileSync(expectedFile, 'utf-8'));
+
+        const diffs = diffFields(expected, actual);
+        if (diffs.length > 0) {
+            expect.fail(`${name} no longer matches ${expectedFile}:\n  ${diffs.join('\n  ')}`);
+        }
+    });
+});
@@ -0,0 +1,50 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { hasUnreadPages, parsePackageListing } from '../src/parsers/packageParser.js';
+
+const row = (code: string, title: string, usage: string) => `
+    <tr>
+        <td><span class="mobile-heading">Code</span><div>${code}</div></td>
+        <td><span class="mobile-heading">Title</span><div>${title}</div></td>
+        <td><span class="mobile-heading">Usage recommendation</span><div>${usage}</div></td>
+    </tr>`;
+
+const listingPage = (page: number, rows: string) => `
+    <html>
+        <body>
+            <div class="heroSubheading"><div class="title"><strong>MAR</strong> Maritime Training Package</div></div>
+            <h2 class="mt-6 mb-2">Qualifications</h2>
+            <div class="mint-table"><table><tbody>${row('MAR20318', 'Certificate II in Maritime Operations', 'Current')}</tbody></table></div>
+            <h2 class="mt-6 mb-2">Units of competency</h2>
+            <div class="mint-table">
+                <table><tbody>${rows}</tbody></table>
+                <div class="mint-table-pagination">
+                    <nav class="mint-pagination" aria-label="Pagination currently on page ${page} of 2"></nav>
+                </div>
+            </div>
+        </body>
+    </html>
+`;
+
+describe('parsePackageListing', () => {
+    it('should merge the unit rows of every listing page', () => {
+        const pages = [
+            listingPage(1, row('MARB027', 'Perform engineering watchkeeping', 'Current') +
+                row('MARC001', 'Apply basic survival skills', 'Superseded')),
+            listingPage(2, row('MARB027', 'Perform engineering watchkeeping', 'Current') +
+                row('MARF027', 'Apply basic survival skills in the event of vessel abandonment', 'Current'))
+        ];
+
+        const result = parsePackageListing(pages, 'https://training.gov.au/training/details/MAR');
+
+        expect(result.code).toBe('MAR');
+        expect(result.title).toBe('Maritime Training Package');
+        expect(result.units).toEqual([
+            { code: 'MARB027', title: 'Perform engineering watchkeeping', release: undefined, status: 'Current', superseded: false },
+            { code: 'MARC001', title: 'Apply basic survival skills', release: undefined, status: 'Superseded', superseded: true },
+            { code: 'MARF027', title: 'Apply basic survival skills in the event of vessel abandonment', release: undefined, status: 'Current', superseded: false }
+        ]);
+        expect(hasUnreadPages(pages)).toBe(false);
+        expect(hasUnreadPages(pages.slice(0, 1))).toBe(true);
+    });
+});
@@ -0,0 +1,60 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { readFileSync } from 'fs';
+import { hasUnitContent, isNotFoundPage } from '../src/parsers/pageDetection.js';
+
+describe('isNotFoundPage', () => {
+    it('should detect the site not-found page from its heading', () => {
+        const html = `
+            <html>
+                <head><title>National Training Register - Page not found</title></head>
+                <body><h1>Page not found</h1></body>
+            </html>
+        `;
+
+        expect(isNotFoundPage(html)).toBe(true);
+    });
+
+    it('should not flag a unit page whose body mentions 404 or not found', () => {
+        const html = `
+            <html>
+                <body>
+                    <h1>Unit of competency details</h1>
+                    <div class="heroSubheading"><div class="title"><strong>MARH013</strong> Plan and navigate</div></div>
+                    <p>Report any item not found during the 404 pre-departure inspection.</p>
+                </body>
+            </html>
+        `;
+
+        expect(isNotFoundPage(html)).toBe(false);
+    });
+
+    it('should not flag a real rendered unit page', () => {
+        const html = readFileSync('tests/fixtures/units/bsb-two-column.html', 'utf-8');
+
+        expect(isNotFoundPage(html)).toBe(false);
+        expect(hasUnitContent(html)).toBe(true);
+    });
+});
+
+describe('hasUnitContent', () => {
+    it('should not treat body text mentioning performance criteria as a unit', () => {
+        const html = `
+            <html>
+                <body>
+                    <h1>Search results</h1>
+                    <p>Performance Criteria and Performance evidence are listed on each unit page.</p>
+                </body>
+            </html>
+        `;
+
+        expect(hasUnitContent(html)).toBe(false);
+    });
+
+    it('should accept an elements and performance criteria table', () => {
+        // debug-table.html is the inner markup of the table element
+        const html = `<table>${readFileSync('debug-table.html', 'utf-8')}</table>`;
+
+        expect(hasUnitContent(html)).toBe(true);
+    });
+});
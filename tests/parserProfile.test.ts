@@ -0,0 +1,89 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PROFILE, ParserProfile, ProfileError, validateProfile } from '../src/parsers/parserProfile.js';
+import { parseUocHtml } from '../src/parsers/uocParser.js';
+import { reviewEntry } from '../src/models/provenance.js';
+
+const clone = (profile: ParserProfile): any => JSON.parse(JSON.stringify(profile));
+
+describe('parser profiles', () => {
+    it('should record the profile on every parsed unit', () => {
+        const html = `<html><body><div class="heroSubheading"><div class="title"><strong>MARB027</strong> Perform engineering watchkeeping</div></div></body></html>`;
+
+        const result = parseUocHtml(html, 'https://training.gov.au/training/details/MARB027/unitdetails');
+
+        expect(result.code).toBe('MARB027');
+        expect(result.parserProfile).toBe(`tga@${DEFAULT_PROFILE.version}`);
+    });
+
+    it('should try field strategies in order', () => {
+        const profile = clone(DEFAULT_PROFILE);
+        profile.version = 'test';
+        profile.fields.code = [
+            { strategy: 'selector', selector: '.unit-code' },
+            { strategy: 'selector', selector: '.page-title', pattern: '^(\\w+):', group: 1 }
+        ];
+        profile.fields.title = [{ strategy: 'selector', selector: '.page-title', pattern: ':\\s*(.+)$', group: 1 }];
+        profile.fields.unitSector = [{ strategy: 'dl', label: 'Sector' }];
+        const html = `
+            <html><body>
+                <div class="page-title">MARB027: Perform engineering watchkeeping</div>
+                <dl><dt>Sector</dt><dd>Maritime – Engineering</dd></dl>
+            </body></html>
+        `;
+
+        const result = parseUocHtml(html, 'https://training.gov.au/training/details/MARB027/unitdetails', validateProfile(profile));
+
+        expect(result).toMatchObject({
+            code: 'MARB027',
+            title: 'Perform engineering watchkeeping',
+            unitSector: 'Maritime – Engineering',
+            sectorPath: ['Maritime', 'Engineering'],
+            parserProfile: 'tga@test'
+        });
+    });
+
+    it('should flag fields that came from a truncated body text fallback', () => {
+        const conditions = 'Skills must be demonstrated in the workplace. '.repeat(60);
+        const html = `
+            <html><body>
+                <div class="heroSubheading"><div class="title"><strong>MARB027</strong> Perform engineering watchkeeping</div></div>
+                <div>Assessment conditions
+                ${conditions}</div>
+            </body></html>
+        `;
+
+        const result = parseUocHtml(html, 'https://training.gov.au/training/details/MARB027/unitdetails');
+
+        expect(result.assessmentConditions).toHaveLength(2000);
+        expect(result.provenance).toContainEqual({ field: 'code', strategy: 'selector', fallback: 0, truncated: false, confidence: 1 });
+        expect(reviewEntry(result)).toEqual({
+            code: 'MARB027',
+            url: 'https://training.gov.au/training/details/MARB027/unitdetails',
+            fields: [{ field: 'assessmentConditions', strategy: 'bodyText', fallback: 2, truncated: true, confidence: 0.2 }]
+        });
+    });
+
+    it('should report every problem in an invalid profile', () => {
+        const profile = clone(DEFAULT_PROFILE);
+        profile.schemaVersion = 2;
+        profile.fields.status = [];
+        profile.fields.release = [{ strategy: 'selector', selector: '.release-label', pattern: '(' }];
+        profile.fields.application = [{ strategy: 'xpath', path: '//dd' }];
+
+        let error: ProfileError | undefined;
+        try {
+            validateProfile(profile, 'broken.json');
+        } catch (e: any) {
+            error = e;
+        }
+
+        expect(error).toBeInstanceOf(ProfileError);
+        expect(error!.problems).toEqual([
+            'schemaVersion must be 1 (got 2)',
+            'fields.status needs at least one strategy',
+            'fields.release[0]: invalid pattern (Invalid regular expression: /(/: Unterminated group)',
+            'fields.application[0]: unknown strategy "xpath"'
+        ]);
+    });
+});
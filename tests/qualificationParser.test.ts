@@ -0,0 +1,84 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { parseQualificationHtml, qualificationUnitCodes } from '../src/parsers/qualificationParser.js';
+
+const html = `
+    <html>
+        <body>
+            <div class="heroSubheading"><div class="title"><strong>MAR20318</strong> Certificate II in Maritime Operations (Coxswain Grade 1 Near Coastal)</div></div>
+            <span class="mint-pill">Current</span>
+            <div><span class="release-label">Release</span> 2</div>
+            <h2 class="mt-6 mb-2">Packaging rules</h2>
+            <div class="html-content"><div>
+                <p>Total number of units = 12</p>
+                <p>10 core units plus 2 elective units</p>
+                <p><strong>Core units</strong></p>
+                <div class="table-std"><table><tbody>
+                    <tr><td>MARB027</td><td>Perform basic deck operations</td></tr>
+                    <tr><td>MARC037</td><td>Apply basic engineering practices</td></tr>
+                </tbody></table></div>
+                <p><strong>Elective units</strong></p>
+                <p>Select 2 units from the groups below.</p>
+                <h3>Group A Deck</h3>
+                <ul><li>MARK007 Handle a vessel up to 12 metres</li></ul>
+                <h3>Group B Engineering</h3>
+                <ul><li>MARL001 Operate and maintain outboard motors</li><li>MARK007 Handle a vessel up to 12 metres</li></ul>
+            </div></div>
+            <h2 class="mt-6 mb-2">Qualification mapping information</h2>
+            <p>MARB001 Supersedes something</p>
+        </body>
+    </html>
+`;
+
+describe('parseQualificationHtml', () => {
+    it('should extract header details, core units and elective groups', () => {
+        const result = parseQualificationHtml(html, 'https://training.gov.au/training/details/MAR20318/qualdetails');
+
+        expect(result).toMatchObject({
+            code: 'MAR20318',
+            title: 'Certificate II in Maritime Operations (Coxswain Grade 1 Near Coastal)',
+            status: 'Current',
+            release: 'Release 2',
+            coreUnits: [
+                { code: 'MARB027', title: 'Perform basic deck operations' },
+                { code: 'MARC037', title: 'Apply basic engineering practices' }
+            ],
+            electiveGroups: [
+                { name: 'Group A Deck', units: [{ code: 'MARK007', title: 'Handle a vessel up to 12 metres' }] },
+                {
+                    name: 'Group B Engineering',
+                    units: [
+                        { code: 'MARL001', title: 'Operate and maintain outboard motors' },
+                        { code: 'MARK007', title: 'Handle a vessel up to 12 metres' }
+                    ]
+                }
+            ]
+        });
+        expect(result.packagingRules).toContain('Total number of units = 12');
+        expect(qualificationUnitCodes(result)).toEqual(['MARB027', 'MARC037', 'MARK007', 'MARL001']);
+    });
+
+    it('should not store qualifications named in the rules as member units', () => {
+        const withEntryRequirement = html
+            .replace('<p>Total number of units = 12</p>', '<p>MAR10418 Certificate I in Maritime Operations (General Purpose Hand Near Coastal)</p>')
+            .replace('<tr><td>MARC037</td>', '<tr><td>MAR20418</td><td>Certificate II in Maritime Operations</td></tr><tr><td>MARC037</td>');
+        const result = parseQualificationHtml(withEntryRequirement, 'https://training.gov.au/training/details/MAR20318/qualdetails');
+
+        expect(qualificationUnitCodes(result)).toEqual(['MARB027', 'MARC037', 'MARK007', 'MARL001']);
+        expect(result.packagingRules).toContain('MAR10418 Certificate I in Maritime Operations');
+        expect(result.unlabelledUnits).toBeUndefined();
+    });
+
+    it('should keep units listed before any core or elective heading apart and warn', () => {
+        const withLeadingUnit = html.replace(
+            '<p>10 core units plus 2 elective units</p>',
+            '<p>10 core units plus 2 elective units</p><p>MARF027 Apply basic survival skills in the event of vessel abandonment</p>'
+        );
+        const result = parseQualificationHtml(withLeadingUnit, 'https://training.gov.au/training/details/MAR20318/qualdetails');
+
+        expect(result.unlabelledUnits).toEqual([{ code: 'MARF027', title: 'Apply basic survival skills in the event of vessel abandonment' }]);
+        expect(result.electiveGroups.map(g => g.name)).toEqual(['Group A Deck', 'Group B Engineering']);
+        expect(result.parseWarnings).toEqual(['1 unit(s) listed before any Core or Elective heading: MARF027']);
+        expect(qualificationUnitCodes(result)).toContain('MARF027');
+    });
+});
@@ -0,0 +1,80 @@
+/// <reference types="vitest" />
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { copyFileSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { reparseArchive } from '../src/reparse.js';
+import { SnapshotCache } from '../src/services/snapshotCache.js';
+import { UnitRepository } from '../src/services/unitRepository.js';
+
+const UNIT_PAGE = 'tests/fixtures/units/bsb-two-column.html';
+
+const skillSetPage = `
+    <html>
+        <body>
+            <div class="heroSubheading"><div class="title"><strong>BSBSS00094</strong> Team Leader Skill Set</div></div>
+            <h2 class="mt-6 mb-2">Skill set requirements</h2>
+            <div class="html-content"><p>BSBTWK201 Work effectively with others</p></div>
+        </body>
+    </html>
+`;
+
+let dataDir: string;
+
+describe('reparseArchive', () => {
+    beforeEach(() => {
+        dataDir = mkdtempSync(path.join(tmpdir(), 'tga-reparse-'));
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+        rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should re-parse cached unit pages only', async () => {
+        const cache = new SnapshotCache(dataDir);
+        await cache.put('https://training.gov.au/training/details/BSBTWK201/unitdetails', readFileSync(UNIT_PAGE, 'utf-8'));
+        await cache.put('https://training.gov.au/training/details/BSBSS00094/skillsetdetails', skillSetPage);
+
+        const result = await reparseArchive({ dataDir, outputExcel: path.join(dataDir, 'units.xlsx'), dryRun: true });
+
+        expect(result.added).toEqual(['BSBTWK201']);
+        expect(result.skipped).toEqual(['https://training.gov.au/training/details/BSBSS00094/skillsetdetails']);
+    });
+
+    it('should skip saved pages without a URL that are not units', async () => {
+        const archiveDir = path.join(dataDir, 'archive');
+        mkdirSync(archiveDir);
+        copyFileSync(UNIT_PAGE, path.join(archiveDir, 'unit.html'));
+        writeFileSync(path.join(archiveDir, 'skillset.html'), skillSetPage);
+
+        const result = await reparseArchive({ dataDir, outputExcel: path.join(dataDir, 'units.xlsx'), archiveDir, dryRun: true });
+
+        expect(result.added).toEqual(['BSBTWK201']);
+        expect(result.skipped).toHaveLength(1);
+    });
+
+    it('should not let a cached older release replace the current record', async () => {
+        const currentUrl = 'https://training.gov.au/training/details/BSBTWK201/unitdetails';
+        const cache = new SnapshotCache(dataDir);
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2025-03-01T00:00:00.000Z'));
+        await cache.put(currentUrl, readFileSync(UNIT_PAGE, 'utf-8'));
+        // Scraped with scrapeRelease.ts after the current page
+        vi.setSystemTime(new Date('2025-04-01T00:00:00.000Z'));
+        await cache.put(`${currentUrl}?release=1`, readFileSync(UNIT_PAGE, 'utf-8'));
+        vi.useRealTimers();
+
+        const result = await reparseArchive({ dataDir, outputExcel: 'units.xlsx' });
+
+        expect(result.skipped).toEqual([`${currentUrl}?release=1`]);
+        const repository = UnitRepository.open(dataDir);
+        try {
+            expect(repository.get('BSBTWK201')).toMatchObject({ url: currentUrl, lastFetchedAt: '2025-03-01T00:00:00.000Z' });
+        } finally {
+            repository.close();
+        }
+    });
+});
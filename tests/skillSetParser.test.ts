@@ -0,0 +1,44 @@
+/// <reference types="vitest" />
+import { describe, expect, it } from 'vitest';
+import { parseSkillSetHtml } from '../src/parsers/skillSetParser.js';
+import { isSkillSetCode } from '../src/parsers/componentUnits.js';
+
+describe('parseSkillSetHtml', () => {
+    it('should extract the member units of a skill set', () => {
+        const html = `
+            <html>
+                <body>
+                    <div class="heroSubheading"><div class="title"><strong>BSBSS00094</strong> Team Leader Skill Set</div></div>
+                    <h2 class="mt-6 mb-2">Description</h2>
+                    <div class="html-content"><p>This skill set is for team leaders.</p></div>
+                    <h2 class="mt-6 mb-2">Skill set requirements</h2>
+                    <div class="html-content">
+                        <p>BSBTWK201 Work effectively with others</p>
+                        <table><tbody>
+                            <tr><th>Code</th><th>Title</th></tr>
+                            <tr><td>BSBXTW301</td><td>Lead a team</td></tr>
+                        </tbody></table>
+                    </div>
+                    <h2 class="mt-6 mb-2">Target area</h2>
+                </body>
+            </html>
+        `;
+
+        const result = parseSkillSetHtml(html, 'https://training.gov.au/training/details/BSBSS00094/skillsetdetails');
+
+        expect(result).toMatchObject({
+            code: 'BSBSS00094',
+            title: 'Team Leader Skill Set',
+            description: 'This skill set is for team leaders.',
+            units: [
+                { code: 'BSBTWK201', title: 'Work effectively with others' },
+                { code: 'BSBXTW301', title: 'Lead a team' }
+            ]
+        });
+    });
+
+    it('should recognise skill set codes', () => {
+        expect(isSkillSetCode('BSBSS00094')).toBe(true);
+        expect(isSkillSetCode('BSBTWK201')).toBe(false);
+    });
+});
@@ -0,0 +1,106 @@
+/// <reference types="vitest" />
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import XLSX from 'xlsx';
+import { syncUnits, SyncConfig } from '../src/autoSync.js';
+import { StandInOptions, StandInServer, startStandInServer } from '../src/standInServer.js';
+
+// End-to-end sync runs against the local stand-in for training.gov.au (src/standInServer.ts)
+
+let workDir: string;
+let server: StandInServer | undefined;
+
+function writeInput(codes: string[]): string {
+    const file = path.join(workDir, 'Units.xlsx');
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(codes.map(code => ({ 'Unit Code': code }))), 'Units');
+    XLSX.writeFile(workbook, file);
+    return file;
+}
+
+async function sync(codes: string[], options: StandInOptions = {}) {
+    server = server ?? await startStandInServer({ fixturesDir: 'tests/fixtures/units', ...options });
+    const config: SyncConfig = {
+        inputExcel: writeInput(codes),
+        inputColumn: '',
+        outputExcel: 'UnitsData.xlsx',
+        dataDir: path.join(workDir, 'data'),
+        fetchBackend: 'http',
+        baseUrl: server.baseUrl,
+        useCache: false,
+        retryDelay: 10,
+        rateLimit: { requestsPerMinute: 60000, burst: 100 }
+    };
+    return syncUnits(config);
+}
+
+const storedCodes = () => readFileSync(path.join(workDir, 'data', 'uoc.jsonl'), 'utf-8')
+    .trim().split('\n').map(line => JSON.parse(line).code).sort();
+
+// The Units sheet has a row per performance criterion
+const workbookCodes = () => {
+    const workbook = XLSX.readFile(path.join(workDir, 'data', 'UnitsData.xlsx'));
+    const rows = XLSX.utils.sheet_to_json<any>(workbook.Sheets[workbook.SheetNames[0]]);
+    return [...new Set(rows.map(row => row['Unit Code']))].sort();
+};
+
+const errorLog = () => JSON.parse(readFileSync(path.join(workDir, 'data', 'error-log.json'), 'utf-8'));
+
+const requestsFor = (code: string) => server!.requests.filter(p => p === `/training/details/${code}/unitdetails`).length;
+
+describe('syncUnits against a stand-in site', () => {
+    beforeEach(() => {
+        workDir = mkdtempSync(path.join(tmpdir(), 'tga-sync-'));
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        await server?.close();
+        server = undefined;
+        vi.restoreAllMocks();
+        rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it('should retry intermittent server errors and wait for slow pages', async () => {
+        const result = await sync(['BSBCMM201', 'MARH013'], {
+            failures: { BSBCMM201: 1 },
+            delays: { MARH013: 200 }
+        });
+
+        expect(result).toMatchObject({ success: true, validCount: 2, errorCount: 0 });
+        expect(requestsFor('BSBCMM201')).toBe(2);
+        expect(storedCodes()).toEqual(['BSBCMM201', 'MARH013']);
+
+        const superseded = JSON.parse(readFileSync(path.join(workDir, 'data', 'uoc.jsonl'), 'utf-8').split('\n')
+            .find(line => line.includes('"BSBCMM201"'))!);
+        expect(superseded.supersededBy.url).toBe(`${server!.baseUrl}/training/details/BSBCMM211`);
+    });
+
+    it('should record units the site does not have as invalid', async () => {
+        const result = await sync(['BSBWHS211', 'MARX999']);
+
+        expect(result).toMatchObject({ validCount: 1, invalidCount: 1, errorCount: 0 });
+        expect(errorLog().invalidUnits).toMatchObject([{ code: 'MARX999', reason: '404 - Unit not found' }]);
+        expect(storedCodes()).toEqual(['BSBWHS211']);
+        expect(workbookCodes()).toEqual(['BSBWHS211']);
+    });
+
+    it('should carry failed units to the next run and add them to the workbook', async () => {
+        // Three 500s use up the first run's attempt and both in-run retries
+        const first = await sync(['BSBWHS211', 'MARH013'], { failures: { MARH013: 3 } });
+
+        expect(first).toMatchObject({ success: false, validCount: 1, errorCount: 1 });
+        expect(errorLog().errorUnits).toMatchObject([{ code: 'MARH013', kind: 'http', attempts: 1 }]);
+        expect(workbookCodes()).toEqual(['BSBWHS211']);
+
+        const second = await sync(['BSBWHS211', 'MARH013']);
+
+        expect(second).toMatchObject({ success: true, validCount: 1, errorCount: 0, retryCount: 1 });
+        expect(requestsFor('BSBWHS211')).toBe(1);
+        expect(errorLog().errorUnits).toEqual([]);
+        expect(workbookCodes()).toEqual(['BSBWHS211', 'MARH013']);
+    });
+});
@@ -0,0 +1,110 @@
+/// <reference types="vitest" />
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { diffUnits, textSimilarity } from '../src/models/unitDiff.js';
+import { renderHtml, renderMarkdown } from '../src/services/changeReport.js';
+import { ExportService } from '../src/services/exportService.js';
+import { Uoc, UocElement } from '../src/models/uoc.js';
+
+const element = (number: string, text: string, criteria: string[]): UocElement => ({
+    number,
+    element: text,
+    performanceCriteria: criteria.map((pc, i) => `${number}.${i + 1} ${pc}`),
+    criteria: criteria.map((pc, i) => ({ number: `${number}.${i + 1}`, text: pc }))
+});
+
+const release1: Uoc = {
+    url: 'https://training.gov.au/training/details/BSBTWK201/unitdetails',
+    code: 'BSBTWK201',
+    title: 'Work effectively with others',
+    release: 'Release 1',
+    elements: [
+        element('1', 'Develop effective workplace relationships', [
+            'Collect and share information with team members',
+            'Treat colleagues with respect and courtesy'
+        ]),
+        element('2', 'Contribute to workgroup activities', ['Offer help to colleagues when needed']),
+        element('3', 'Deal effectively with issues, problems and conflict', ['Identify issues and problems'])
+    ],
+    performanceEvidence: '• work effectively with others on at least two occasions',
+    knowledgeEvidence: '• team roles\n• organisational policies for communication',
+    supersededBy: null,
+    supersedes: null,
+    lastFetchedAt: '2025-01-10T08:00:00.000Z'
+};
+
+const release2: Uoc = {
+    ...release1,
+    release: 'Release 2',
+    elements: [
+        element('1', 'Develop effective workplace relationships', [
+            'Collect and share relevant information with team members',
+            'Treat colleagues with respect and courtesy'
+        ]),
+        element('2', 'Deal effectively with issues, problems and conflict', ['Identify issues and problems']),
+        element('3', 'Support <diverse> teams & workplaces', ['Recognise diverse work styles'])
+    ],
+    performanceEvidence: '• work effectively with others on at least three occasions',
+    knowledgeEvidence: '• team roles\n• organisational policies for communication\n• workplace diversity',
+    lastFetchedAt: '2025-04-10T08:00:00.000Z'
+};
+
+describe('unit diff', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should score word overlap between texts', () => {
+        expect(textSimilarity('Treat colleagues with respect', 'treat colleagues with respect.')).toBe(1);
+        expect(textSimilarity('Offer help', 'Identify issues')).toBe(0);
+    });
+
+    it('should classify changes to elements, criteria and evidence', () => {
+        const changes = diffUnits(release1, release2).changes
+            .map(c => [c.item, c.kind, c.beforeNumber ?? null, c.afterNumber ?? null]);
+
+        expect(changes).toEqual([
+            ['element', 'renumbered', '3', '2'],
+            ['element', 'removed', '2', null],
+            ['element', 'added', null, '3'],
+            ['criterion', 'reworded', '1.1', '1.1'],
+            ['criterion', 'renumbered', '3.1', '2.1'],
+            ['performanceEvidence', 'reworded', 'P1', 'P1'],
+            ['knowledgeEvidence', 'added', null, 'K3']
+        ]);
+    });
+
+    it('should render Markdown and escaped HTML reports', () => {
+        const diff = diffUnits(release1, release2);
+
+        const markdown = renderMarkdown([diff]);
+        expect(markdown).toContain('## BSBTWK201 Work effectively with others');
+        expect(markdown).toContain('Release 1 -> Release 2');
+        expect(markdown).toMatch(/\| Performance criterion 1\.1 \| Reworded \(\d+% alike\) \| 1\.1 Collect and share information/);
+
+        const html = renderHtml([diff]);
+        expect(html).toContain('<tr class="added">');
+        expect(html).toContain('3 Support &lt;diverse&gt; teams &amp; workplaces');
+    });
+
+    it('should collect diffs for stored units whose content changed', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        const dataDir = mkdtempSync(path.join(tmpdir(), 'tga-diff-'));
+        const exporter = new ExportService(dataDir);
+        try {
+            await exporter.writeUnit(release1);
+            await exporter.writeUnit({ ...release1, lastFetchedAt: '2025-02-10T08:00:00.000Z' });
+            expect(exporter.takeChanges()).toEqual([]);
+
+            await exporter.writeUnit(release2);
+            const changes = exporter.takeChanges();
+            expect(changes.map(d => [d.code, d.fromRelease, d.toRelease])).toEqual([['BSBTWK201', 'Release 1', 'Release 2']]);
+            expect(exporter.takeChanges()).toEqual([]);
+        } finally {
+            exporter.close();
+            rmSync(dataDir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,137 @@
+/// <reference types="vitest" />
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { UnitRepository } from '../src/services/unitRepository.js';
+import { ExportService } from '../src/services/exportService.js';
+import { Uoc } from '../src/models/uoc.js';
+
+const unit = (code: string, extra: Partial<Uoc> = {}): Uoc => ({
+    url: `https://training.gov.au/training/details/${code}/unitdetails`,
+    code,
+    title: 'Work effectively with others',
+    status: 'Current',
+    release: 'Release 1',
+    elements: [{ number: '1', element: 'Participate in work teams', performanceCriteria: [] }],
+    performanceEvidence: 'Evidence of the ability to work with others',
+    knowledgeEvidence: 'Knowledge of team roles',
+    supersededBy: null,
+    supersedes: null,
+    lastFetchedAt: '2025-01-01T00:00:00.000Z',
+    ...extra
+} as Uoc);
+
+const readJsonl = (file: string) => readFileSync(file, 'utf-8').trim().split('\n').filter(Boolean).map(line => JSON.parse(line));
+
+let dataDir: string;
+let repository: UnitRepository | undefined;
+
+describe('UnitRepository', () => {
+    beforeEach(() => {
+        dataDir = mkdtempSync(path.join(tmpdir(), 'tga-units-'));
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        repository?.close();
+        repository = undefined;
+        vi.restoreAllMocks();
+        rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should keep one current record per code and archive replaced releases', () => {
+        repository = UnitRepository.open(dataDir);
+        repository.upsert(unit('BSBTWK201'));
+        repository.upsert(unit('BSBTWK201', { title: 'Renamed' }));
+        repository.upsert(unit('BSBTWK201', { release: 'Release 2' }));
+
+        expect(repository.count()).toBe(1);
+        expect(repository.get('BSBTWK201')?.release).toBe('Release 2');
+        expect(repository.releases('BSBTWK201').map(u => [u.release, u.title])).toEqual([
+            ['Release 2', 'Work effectively with others'],
+            ['Release 1', 'Renamed']
+        ]);
+
+        // An older release stored on its own leaves the current record alone
+        repository.upsert(unit('BSBTWK201', { release: 'Release 0' }), { current: false });
+        expect(repository.get('BSBTWK201')?.release).toBe('Release 2');
+        expect(repository.getRelease('BSBTWK201', 'Release 0')).toBeDefined();
+    });
+
+    it('should find units by status, sector and prerequisite', () => {
+        repository = UnitRepository.open(dataDir);
+        repository.upsert(unit('BSBTWK201', { unitSector: 'Social Competence - Teamwork and Relationships', sectorPath: ['Social Competence', 'Teamwork and Relationships'] }));
+        repository.upsert(unit('BSBTWK301', { status: 'Superseded', prerequisites: ['BSBTWK201'] }));
+        repository.upsert(unit('HLTAID011', { unitSector: 'First Aid', prerequisites: ['BSBTWK201', 'HLTAID009'] }));
+
+        const codes = (units: Uoc[]) => units.map(u => u.code);
+        expect(codes(repository.findByStatus('superseded'))).toEqual(['BSBTWK301']);
+        expect(codes(repository.findBySector('Teamwork and Relationships'))).toEqual(['BSBTWK201']);
+        expect(codes(repository.findBySector('First Aid'))).toEqual(['HLTAID011']);
+        expect(codes(repository.findByPrerequisite('BSBTWK201'))).toEqual(['BSBTWK301', 'HLTAID011']);
+    });
+
+    it('should import existing JSONL files once and export them again', () => {
+        writeFileSync(path.join(dataDir, 'uoc.jsonl'), [unit('BSBTWK201', { release: 'Release 2' }), unit('BSBTWK301')]
+            .map(u => JSON.stringify(u)).join('\n') + '\nnot json\n');
+        writeFileSync(path.join(dataDir, 'releases.jsonl'), JSON.stringify(unit('BSBTWK201')) + '\n');
+
+        repository = UnitRepository.open(dataDir);
+        expect(repository.codes()).toEqual(['BSBTWK201', 'BSBTWK301']);
+        expect(repository.releases('BSBTWK201')).toHaveLength(2);
+        expect(repository.history('BSBTWK201')).toHaveLength(2);
+        repository.close();
+
+        // Not imported a second time, even when the JSONL file changes
+        writeFileSync(path.join(dataDir, 'uoc.jsonl'), JSON.stringify(unit('HLTAID011')) + '\n');
+        repository = UnitRepository.open(dataDir);
+        expect(repository.codes()).toEqual(['BSBTWK201', 'BSBTWK301']);
+
+        expect(repository.exportJsonl()).toEqual({ units: 2, releases: 1 });
+        expect(readJsonl(path.join(dataDir, 'uoc.jsonl')).map(u => u.code)).toEqual(['BSBTWK201', 'BSBTWK301']);
+        expect(readJsonl(path.join(dataDir, 'releases.jsonl')).map(u => u.release)).toEqual(['Release 1']);
+    });
+
+    it('should keep each distinct scrape and return the unit as it was on a date', () => {
+        repository = UnitRepository.open(dataDir);
+        repository.upsert(unit('BSBTWK201', { lastFetchedAt: '2025-01-10T08:00:00.000Z' }));
+        // Same content fetched again: not a new version
+        repository.upsert(unit('BSBTWK201', { lastFetchedAt: '2025-02-10T08:00:00.000Z' }));
+        repository.upsert(unit('BSBTWK201', { title: 'Reworded', lastFetchedAt: '2025-03-10T08:00:00.000Z' }));
+        repository.upsert(unit('BSBTWK201', { release: 'Release 2', lastFetchedAt: '2025-04-10T08:00:00.000Z' }));
+        repository.upsert(unit('BSBTWK201', { release: 'Release 0', lastFetchedAt: '2025-05-10T08:00:00.000Z' }), { current: false });
+
+        const history = repository.history('BSBTWK201');
+        expect(history.map(v => [v.fetchedAt.slice(0, 10), v.release, v.current])).toEqual([
+            ['2025-05-10', 'Release 0', false],
+            ['2025-04-10', 'Release 2', true],
+            ['2025-03-10', 'Release 1', true],
+            ['2025-01-10', 'Release 1', true]
+        ]);
+
+        expect(repository.asOf('BSBTWK201', '2024-12-31')).toBeUndefined();
+        expect(repository.asOf('BSBTWK201', '2025-03-10')?.title).toBe('Reworded');
+        expect(repository.asOf('BSBTWK201', '2025-03-09')?.title).toBe('Work effectively with others');
+        // The older release scraped later was never the current record
+        expect(repository.asOf('BSBTWK201', '2025-06-01')?.release).toBe('Release 2');
+        expect(repository.version('BSBTWK201', history[2].contentHash.slice(0, 10))?.title).toBe('Reworded');
+        expect(() => repository!.asOf('BSBTWK201', 'last week')).toThrow('Invalid date');
+    });
+
+    it('should not lose or duplicate units written concurrently', async () => {
+        const codes = Array.from({ length: 40 }, (_, i) => `BSBTWK${String(i).padStart(3, '0')}`);
+        const writers = [new ExportService(dataDir), new ExportService(dataDir)];
+
+        await Promise.all(codes.flatMap((code, i) => [
+            writers[i % 2].writeUnit(unit(code)),
+            writers[(i + 1) % 2].writeUnit(unit(code, { release: 'Release 2' }))
+        ]));
+        await writers[0].exportJsonl();
+        writers.forEach(writer => writer.close());
+
+        const exported = readJsonl(path.join(dataDir, 'uoc.jsonl'));
+        expect(exported.map(u => u.code)).toEqual(codes);
+        expect(readJsonl(path.join(dataDir, 'releases.jsonl'))).toHaveLength(codes.length);
+    });
+});
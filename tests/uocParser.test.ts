@@ -1,6 +1,6 @@
 /// <reference types="vitest" />
 import { describe, expect, it } from 'vitest';
-import { parseUoc } from '../src/parsers/uocParser.js';
+import { parseUoc, parseUocHtml } from '../src/parsers/uocParser.js';
 import { JSDOM } from 'jsdom';
 
 describe('parseUoc', () => {
@@ -43,4 +43,254 @@ describe('parseUoc', () => {
             description: null
         });
     });
-});
\ No newline at end of file
+});
+
+describe('parseUocHtml', () => {
+    it('should extract range of conditions with nested values', () => {
+        const html = `
+            <html>
+                <body>
+                    <h2 class="mt-6 mb-2">Range of conditions</h2>
+                    <div class="html-content">
+                        <table><tbody>
+                            <tr><td colspan="2"><p>Range is restricted to essential operating conditions.</p></td></tr>
+                            <tr>
+                                <td><p><strong>Vessels</strong> may include:</p></td>
+                                <td><ul><li>commercial vessels<ul><li>up to 12 metres</li></ul></li><li>ferries</li></ul></td>
+                            </tr>
+                        </tbody></table>
+                    </div>
+                    <h2 class="mt-6 mb-2">Foundation skills</h2>
+                </body>
+            </html>
+        `;
+
+        const result = parseUocHtml(html, 'https://training.gov.au/training/details/MARB001/unitdetails');
+
+        expect(result.rangeOfConditions).toEqual([
+            {
+                variable: 'Vessels may include:',
+                values: [
+                    { text: 'commercial vessels', children: [{ text: 'up to 12 metres', children: [] }] },
+                    { text: 'ferries', children: [] }
+                ]
+            }
+        ]);
+    });
+
+    it('should extract foundation skills from a three-column table', () => {
+        const html = `
+            <html>
+                <body>
+                    <h2 class="mt-6 mb-2">Foundation skills</h2>
+                    <div class="html-content">
+                        <div class="table-std"><table><tbody>
+                            <tr><td><p><strong>Skill</strong></p></td><td><p><strong>Performance Criteria</strong></p></td><td><p><strong>Description</strong></p></td></tr>
+                            <tr><td>Reading</td><td>1.1, 2.2-2.4</td><td><ul><li>Interprets safety signs</li><li>Reads work orders</li></ul></td></tr>
+                            <tr><td>Numeracy</td><td>3.1</td><td>Calculates quantities</td></tr>
+                        </tbody></table></div>
+                    </div>
+                </body>
+            </html>
+        `;
+
+        const result = parseUocHtml(html, 'https://training.gov.au/training/details/MARB001/unitdetails');
+
+        expect(result.foundationSkills).toEqual([
+            { skill: 'Reading', pcRefs: ['1.1', '2.2', '2.3', '2.4'], description: 'Interprets safety signs\nReads work orders' },
+            { skill: 'Numeracy', pcRefs: ['3.1'], description: 'Calculates quantities' }
+        ]);
+        expect(result.foundationSkillsText).toContain('Numeracy (3.1): Calculates quantities');
+    });
+
+    it('should number evidence items and skip intro paragraphs', () => {
+        const html = `
+            <html>
+                <body>
+                    <h2 class="mt-6 mb-2">Knowledge evidence</h2>
+                    <div class="html-content"><div>
+                        <p>The candidate must be able to demonstrate knowledge of:</p>
+                        <ul>
+                            <li>safety procedures</li>
+                            <li>communication channels including:<ul><li>radio</li><li>email</li></ul></li>
+                        </ul>
+                    </div></div>
+                    <h2 class="mt-6 mb-2">Assessment conditions</h2>
+                </body>
+            </html>
+        `;
+
+        const result = parseUocHtml(html, 'https://training.gov.au/training/details/MARB001/unitdetails');
+
+        expect(result.knowledgeEvidenceTree).toEqual([
+            { id: 'K1', text: 'safety procedures', children: [] },
+            {
+                id: 'K2',
+                text: 'communication channels including:',
+                children: [
+                    { id: 'K2.1', text: 'radio', children: [] },
+                    { id: 'K2.2', text: 'email', children: [] }
+                ]
+            }
+        ]);
+        expect(result.knowledgeEvidence).toBe(
+            'The candidate must be able to demonstrate knowledge of:\n\n' +
+            '• safety procedures\n• communication channels including:\n  ◦ radio\n  ◦ email'
+        );
+    });
+
+    it('should number elements and criteria and warn about gaps', () => {
+        const html = `
+            <html>
+                <body>
+                    <table>
+                        <thead><tr><th>Element</th><th>Performance criteria</th></tr></thead>
+                        <tbody>
+                        <tr><td><p><em>Elements describe the essential outcomes.</em></p></td><td><p><em>Performance criteria describe the performance needed.</em></p></td></tr>
+                        <tr><td>1. Prepare for work</td><td><ul><li>1.1 Check the site</li><li>1.2 Select tools</li></ul></td></tr>
+                        <tr><td>2. Complete work</td><td><ul><li>2.1 Follow the plan</li><li>2.3 Clean up</li></ul></td></tr>
+                    </tbody></table>
+                </body>
+            </html>
+        `;
+
+        const result = parseUocHtml(html, 'https://training.gov.au/training/details/MARB001/unitdetails');
+
+        expect(result.elements?.[1]).toMatchObject({
+            number: '2',
+            criteria: [
+                { number: '2.1', text: 'Follow the plan' },
+                { number: '2.3', text: 'Clean up' }
+            ]
+        });
+        expect(result.parseWarnings).toEqual(['Element 2: criteria numbering jumps from 2.1 to 2.3']);
+    });
+
+    it('should merge the releases table with the modification history', () => {
+        const html = `
+            <html>
+                <body>
+                    <h2 class="mt-6 mb-2">Modification history</h2>
+                    <div class="html-content"><table>
+                        <thead><tr><th>Release</th><th>Comments</th></tr></thead>
+                        <tbody>
+                        <tr><td><p>Release 2</p></td><td><p>Minor edits to performance evidence.</p></td></tr>
+                        <tr><td><p>Release 1</p></td><td><p>First released with MAR Maritime Training Package Version 1.0.</p></td></tr>
+                    </tbody></table></div>
+                    <h2 class="d-inline">Releases</h2>
+                    <div class="mint-table"><table>
+                        <thead><tr><th>Compare</th><th>Release</th><th>Release date</th></tr></thead>
+                        <tbody>
+                        <tr>
+                            <td><span class="mobile-heading">Compare</span><span class="visually-hidden">Select 2 (This release)</span></td>
+                            <td><span class="mobile-heading">Release</span><div><strong>2 (This release)</strong> current</div></td>
+                            <td><span class="mobile-heading">Release date</span><div>03/Mar/2022</div></td>
+                        </tr>
+                        <tr>
+                            <td><span class="mobile-heading">Compare</span></td>
+                            <td><span class="mobile-heading">Release</span><div>1</div></td>
+                            <td><span class="mobile-heading">Release date</span><div>19/Oct/2020</div></td>
+                        </tr>
+                    </tbody></table></div>
+                </body>
+            </html>
+        `;
+
+        const result = parseUocHtml(html, 'https://training.gov.au/training/details/MARB001/unitdetails');
+
+        expect(result.releases).toEqual([
+            { release: '2', date: '03/Mar/2022', comments: 'Minor edits to performance evidence.' },
+            { release: '1', date: '19/Oct/2020', comments: 'First released with MAR Maritime Training Package Version 1.0.' }
+        ]);
+    });
+
+    it('should read mapping rows and take equivalence from the header tooltip', () => {
+        const html = `
+            <html>
+                <body>
+                    <span class="mint-tooltip-content"><span> Supersedes: <br>
+                        <div><a href="/training/details/BSBFLM312">BSBFLM312 - not equivalent</a></div>
+                        <div><a href="/training/details/BSBWOR203">BSBWOR203 - equivalent</a></div>
+                    </span></span>
+                    <h2 class="mt-6 mb-2">Mapping</h2>
+                    <div class="mint-table"><table>
+                        <thead><tr><th>Mapping</th><th>Notes</th><th>Date</th></tr></thead>
+                        <tbody>
+                        <tr>
+                            <td><span class="mobile-heading">Mapping</span><div>Supersedes <a href="/training/details/BSBFLM312">BSBFLM312</a> &nbsp;Contribute to team effectiveness</div></td>
+                            <td><span class="mobile-heading">Notes</span><div>New assessment requirements</div></td>
+                            <td><span class="mobile-heading">Date</span><div>18/Oct/2020</div></td>
+                        </tr>
+                        <tr>
+                            <td><span class="mobile-heading">Mapping</span><div>Supersedes and is equivalent to <a href="/training/details/BSBWOR203">BSBWOR203</a> &nbsp;Work effectively with others</div></td>
+                            <td><span class="mobile-heading">Notes</span><div></div></td>
+                            <td><span class="mobile-heading">Date</span><div>18/Oct/2020</div></td>
+                        </tr>
+                    </tbody></table></div>
+                </body>
+            </html>
+        `;
+
+        const result = parseUocHtml(html, 'https://training.gov.au/training/details/BSBTWK201/unitdetails');
+
+        expect(result.mapping).toEqual([
+            {
+                direction: 'supersedes', code: 'BSBFLM312', title: 'Contribute to team effectiveness', release: undefined,
+                equivalence: 'Not equivalent', notes: 'New assessment requirements', date: '18/Oct/2020'
+            },
+            {
+                direction: 'supersedes', code: 'BSBWOR203', title: 'Work effectively with others', release: undefined,
+                equivalence: 'Equivalent', notes: undefined, date: '18/Oct/2020'
+            }
+        ]);
+    });
+
+    it('should parse the unit sector levels and classification codes', () => {
+        const html = `
+            <html>
+                <body>
+                    <h2 class="mt-6 mb-2">Unit sector</h2>
+                    <div class="html-content"><div><p>Social Competence – Teamwork and Relationships</p></div></div>
+                    <h2>Classifications</h2>
+                    <div class="mint-table"><table>
+                        <thead><tr><th>Scheme</th><th>Code</th><th>Classification value</th></tr></thead>
+                        <tbody>
+                        <tr>
+                            <td><span class="mobile-heading">Scheme</span><div>ASCED Module/Unit of Competency Field of Education Identifier</div></td>
+                            <td><span class="mobile-heading">Code</span><div>120505</div></td>
+                            <td><span class="mobile-heading">Classification value</span><div>Work Practices Programmes</div></td>
+                        </tr>
+                        <tr>
+                            <td><span class="mobile-heading">Scheme</span><div>ANZSCO Identifier</div></td>
+                            <td><span class="mobile-heading">Code</span><div>899211</div></td>
+                            <td><span class="mobile-heading">Classification value</span><div>Deck Hand</div></td>
+                        </tr>
+                    </tbody></table></div>
+                </body>
+            </html>
+        `;
+
+        const result = parseUocHtml(html, 'https://training.gov.au/training/details/BSBTWK201/unitdetails');
+
+        expect(result.unitSector).toBe('Social Competence – Teamwork and Relationships');
+        expect(result.sectorPath).toEqual(['Social Competence', 'Teamwork and Relationships']);
+        expect(result.fieldOfEducation).toEqual({ code: '120505', name: 'Work Practices Programmes' });
+        expect(result.occupations).toEqual([{ code: '899211', name: 'Deck Hand' }]);
+        expect(result.classifications).toHaveLength(2);
+    });
+
+    it('should take the status from the last status pill on the page', () => {
+        const html = `
+            <html>
+                <body>
+                    <div class="heroSubheading"><div class="title"><strong>BSBTWK201</strong> Work effectively with others</div></div>
+                    <div class="mint-pill"><span class="mint-pill__content-label">Current</span></div>
+                    <div class="mint-pill"><span class="mint-pill__content-label">NATIONAL</span></div>
+                    <div class="mint-pill"><span class="mint-pill__content-label">Superseded</span></div>
+                </body>
+            </html>
+        `;
+
+        expect(parseUocHtml(html, 'https://training.gov.au/training/details/BSBTWK201/unitdetails').status).toBe('Superseded');
+    });
+});